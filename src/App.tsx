@@ -1,118 +1,553 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import UploadArea from './components/UploadArea';
 import Controls from './components/Controls';
 import CalibrationPanel from './components/CalibrationPanel';
+import ReviewBar from './components/ReviewBar';
+import LayerToggles from './components/LayerToggles';
 import ScoreViewer from './components/ScoreViewer';
 import VexFlowScore from './components/VexFlowScore';
 import EditNoteModal from './components/EditNoteModal';
+import MeasureNavigator from './components/MeasureNavigator';
+import HistoryPanel from './components/HistoryPanel';
+import BatchPanel from './components/BatchPanel';
+import SessionList from './components/SessionList';
+import ProgressPanel from './components/ProgressPanel';
 import { digitizeImage } from './utils/apiClient';
-import { parseScore } from './utils/scoreParser';
-import type { NoteData, PartInfo, ScoreLayout, CalibrationState, NoteCorrection } from './types';
+import { parseScore, type ParseResult, type RawScore } from './utils/scoreParser';
+import { isScoreFile, loadScoreFile } from './utils/musicXmlLoader';
+import { mergePageScores, normaliseOmrResult } from './utils/apiAdapter';
+import { isPdfFile, renderPdfPages } from './utils/pdfPages';
+import type { AlignResult } from './utils/staffDetection';
+import { IDENTITY_QUAD, offsetToPlace } from './utils/transform';
+import { exportMusicXml } from './utils/musicXmlWriter';
+import { clefLabel } from './utils/clef';
+import {
+  applyEdits, correctAll, deleteNote, insertedNoteData, insertNote, keyAlterOf, keyFifthsOf, mergeWithNext, pitchAtY, placeNote,
+  splitNote, toggleRest,
+} from './utils/scoreEdits';
+import { percentReviewed, reviewProgress } from './utils/progress';
+import { historyEntries, jumpTo, record, redo, startHistory, undo, type History } from './utils/history';
+import {
+  BUNDLE_EXTENSION, deleteSession, listSessions, loadSession, newSessionId, saveSession, sessionFromBundle,
+  sessionToBundle, type ReviewSession, type SessionSummary,
+} from './utils/sessions';
+import {
+  confidentNotesIn, cycleDots, isReviewed, nextUnreviewed, reviewQueue, setAlter, setDuration, stepDuration, stepPitch,
+  toggleAlter, type BatchScope,
+} from './utils/review';
+import type {
+  NoteData, PartInfo, ScoreLayout, CalibrationState, NoteCorrection, KeyInfo, TimeInfo, MeasureFocus,
+  OverlayLayers, NoteHighlight, NoteEdits, ScorePoint,
+} from './types';
 
 const DEFAULT_CALIB: CalibrationState = {
-  offsetX: 0, offsetY: 0, scaleX: 1, scaleY: 1, noteScale: 1,
+  offsetX: 0, offsetY: 0, scaleX: 1, scaleY: 1, noteScale: 1, rotation: 0, perspective: null, systems: {},
+};
+
+/** Everything the undo history covers. */
+interface EditState extends NoteEdits {
+  calibration: CalibrationState;
+}
+
+/** Quiet time after the last change before the session is saved. */
+const SAVE_DELAY_MS = 1000;
+
+const NO_LAYERS: OverlayLayers = {
+  staffLines: false, barlines: false, systemBoxes: false, measureNumbers: false,
 };
 
 export default function App() {
   // ── Core state ──────────────────────────────────────────────────────────
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  /** The uploaded (or PDF-rendered) pages, kept for saving; `pageImages` are their object URLs. */
+  const [pages, setPages] = useState<Blob[]>([]);
+  const [pageImages, setPageImages] = useState<string[]>([]);
   const [threshold, setThreshold] = useState(0.75);
+  const [score, setScore] = useState<RawScore | null>(null);
   const [notes, setNotes] = useState<NoteData[]>([]);
   const [parts, setParts] = useState<PartInfo[]>([]);
   const [layout, setLayout] = useState<ScoreLayout>({
-    pageWidth: 1365, pageHeight: 1922, totalHeight: 1922, numPages: 1, numParts: 3, systems: [],
+    pageWidth: 1365, pageHeight: 1922, margins: { left: 130, right: 130, top: 97, bottom: 97 }, totalHeight: 1922, numPages: 1, numParts: 3, systems: [], measures: [],
   });
   const [loadError, setLoadError] = useState<string | null>(null);
-  const [isDigitizing, setIsDigitizing] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [digitizing, setDigitizing] = useState<{ page: number; total: number } | null>(null);
+  const [focus, setFocus] = useState<MeasureFocus | null>(null);
+
+  // ── Undoable edits: corrections and calibration ────────────────────────
+  const [history, setHistory] = useState<History<EditState>>(() =>
+    startHistory('Start', { corrections: new Map(), insertions: [], calibration: DEFAULT_CALIB }));
+  const { corrections, insertions, calibration } = history.present.state;
+
+  const commit = useCallback((label: string, update: (s: EditState) => EditState, mergeKey?: string) => {
+    setHistory(h => record(h, label, update(h.present.state), mergeKey));
+  }, []);
+
+  const updateCalibration = useCallback(
+    (label: string, update: (c: CalibrationState) => CalibrationState, mergeKey?: string) => {
+      commit(label, s => ({ ...s, calibration: update(s.calibration) }), mergeKey);
+    },
+    [commit],
+  );
+
+  /** A new score starts a new history; system indices refer to the old layout, so their overrides go. */
+  const resetHistory = useCallback((label: string) => {
+    setHistory(h => startHistory(label, {
+      corrections: new Map(),
+      insertions: [],
+      calibration: { ...h.present.state.calibration, systems: {} },
+    }));
+  }, []);
 
   // ── Calibration ─────────────────────────────────────────────────────────
-  const [calibration, setCalibration] = useState<CalibrationState>(DEFAULT_CALIB);
   const [isCalibrating, setIsCalibrating] = useState(false);
+  const [isEditingCorners, setIsEditingCorners] = useState(false);
+  const [layers, setLayers] = useState<OverlayLayers>(NO_LAYERS);
+  const [isPickingSystem, setIsPickingSystem] = useState(false);
+  const [isInserting, setIsInserting] = useState(false);
+  const [selectedSystem, setSelectedSystem] = useState<number | null>(null);
+  const [alignRequest, setAlignRequest] = useState(0);
+  const [alignStatus, setAlignStatus] = useState<{ ok: boolean; message: string } | null>(null);
 
   // ── Note corrections ────────────────────────────────────────────────────
-  const [corrections, setCorrections] = useState<Map<string, NoteCorrection>>(new Map());
   const [editingNote, setEditingNote] = useState<NoteData | null>(null);
+  // Shared between the image overlay and the clean score
+  const [hover, setHover] = useState<NoteHighlight | null>(null);
+  const [selection, setSelection] = useState<NoteHighlight | null>(null);
+  /** Notes picked for batch edits. */
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [reviewing, setReviewing] = useState(false);
+  const [reviewId, setReviewId] = useState<string | null>(null);
+  /** Pitch of a note head being dragged, shown in both views before it is committed. */
+  const [dragPreview, setDragPreview] = useState<{ note: NoteData; correction: NoteCorrection } | null>(null);
 
   // ── Effective notes (with corrections applied) ──────────────────────────
-  const effectiveNotes = useMemo(() =>
-    notes.map(n => {
-      const c = corrections.get(n.id);
-      if (!c) return n;
-      return {
-        ...n,
-        step: c.step ?? n.step,
-        octave: c.octave ?? n.octave,
-        alter: c.alter ?? n.alter,
-        noteType: c.noteType ?? n.noteType,
-        status: c.status,
-      };
-    }),
-    [notes, corrections],
-  );
+  const effectiveNotes = useMemo(() => {
+    const shown = dragPreview ? new Map(corrections).set(dragPreview.note.id, dragPreview.correction) : corrections;
+    return applyEdits(notes, { corrections: shown, insertions }, layout, parts);
+  }, [notes, corrections, insertions, layout, parts, dragPreview]);
+
+  // ── Saved sessions ──────────────────────────────────────────────────────
+  /** The session on screen; its edits are saved as they are made. */
+  const [session, setSession] = useState<{ id: string; name: string; created: number } | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+
+  const refreshSessions = useCallback(() => {
+    listSessions()
+      .then(list => {
+        setSessions(list);
+        setSessionError(null);
+      })
+      .catch(err => {
+        console.error('Session store error:', err);
+        setSessionError('Sessions cannot be saved in this browser (storage is unavailable or blocked).');
+      });
+  }, []);
+
+  useEffect(refreshSessions, [refreshSessions]);
+
+  const showPages = useCallback((blobs: Blob[]) => {
+    setPages(blobs);
+    setPageImages(blobs.map(b => URL.createObjectURL(b)));
+  }, []);
+
+  /** Put a freshly parsed score on screen, clearing everything tied to the previous one. */
+  const showScore = useCallback((raw: RawScore, result: ParseResult) => {
+    setScore(raw);
+    setNotes(result.notes);
+    setParts(result.parts);
+    setLayout(result.layout);
+    setFocus(null);
+    setHover(null);
+    setSelection(null);
+    setSelectedIds(new Set());
+    setReviewing(false);
+    setSelectedSystem(null);
+    setWarnings(result.warnings);
+  }, []);
+
+  // ── MusicXML upload → parse locally (no OMR round trip) ─────────────────
+  const handleScoreFile = useCallback(async (file: File) => {
+    setLoadError(null);
+    try {
+      const raw = await loadScoreFile(file);
+      const result = parseScore(raw);
+      resetHistory(`Opened ${file.name}`);
+      showScore(raw, result);
+      setSession({ id: newSessionId(), name: workTitle(raw) || file.name, created: Date.now() });
+      setAlignRequest(r => r + 1);
+    } catch (err) {
+      console.error('MusicXML load error:', err);
+      setLoadError(String(err));
+    }
+  }, [resetHistory, showScore]);
 
-  // ── Image upload → send to OMR API → parse response ───────────────────
-  const handleUpload = useCallback(async (file: File) => {
-    if (imageUrl) URL.revokeObjectURL(imageUrl);
-    setImageUrl(URL.createObjectURL(file));
+  // ── Page images (or a PDF) → send each page to OMR API → merge → parse ──
+  const handleUpload = useCallback(async (files: File[]) => {
+    const scoreFile = files.find(isScoreFile);
+    if (scoreFile) {
+      await handleScoreFile(scoreFile);
+      return;
+    }
     setLoadError(null);
-    setIsDigitizing(true);
-    setCorrections(new Map());
+    setDigitizing({ page: 0, total: files.length });
+    // The new pages are not the open session's; it stays saved as it was, and
+    // comes back with its pages if digitizing fails
+    const previous = { pages, session };
+    setSession(null);
 
     try {
-      const apiResponse = await digitizeImage(file);
-      const result = parseScore(apiResponse);
-      setNotes(result.notes);
-      setParts(result.parts);
-      setLayout(result.layout);
+      const images: File[] = [];
+      for (const f of files) images.push(...(isPdfFile(f) ? await renderPdfPages(f) : [f]));
+      showPages(images);
+
+      const results: RawScore[] = [];
+      for (const [i, image] of images.entries()) {
+        setDigitizing({ page: i + 1, total: images.length });
+        try {
+          results.push(normaliseOmrResult(await digitizeImage(image)));
+        } catch (err) {
+          throw images.length > 1 ? new Error(`Page ${i + 1}: ${err instanceof Error ? err.message : err}`) : err;
+        }
+      }
+      const raw = mergePageScores(results);
+      const result = parseScore(raw);
+      resetHistory(files.length > 1 ? `Digitized ${files.length} files` : `Digitized ${files[0].name}`);
+      showScore(raw, result);
+      setSession({
+        id: newSessionId(),
+        name: workTitle(raw) || (files.length > 1 ? `${files[0].name} (+${files.length - 1})` : files[0].name),
+        created: Date.now(),
+      });
+      setAlignRequest(r => r + 1);
     } catch (err) {
       console.error('OMR API error:', err);
       setLoadError(String(err));
+      showPages(previous.pages);
+      setSession(previous.session);
     } finally {
-      setIsDigitizing(false);
+      setDigitizing(null);
     }
-  }, [imageUrl]);
+  }, [handleScoreFile, resetHistory, showPages, showScore, pages, session]);
 
   useEffect(() => {
-    return () => { if (imageUrl) URL.revokeObjectURL(imageUrl); };
-  }, [imageUrl]);
+    return () => pageImages.forEach(url => URL.revokeObjectURL(url));
+  }, [pageImages]);
 
   // ── Calibration click handler ───────────────────────────────────────────
   const handleCalibrationClick = useCallback(
     (px: number, py: number, canvasW: number, canvasH: number) => {
-      // User clicked where the score top-left corner is in the image.
-      const LEFT_MARGIN = 130; // standard MusicXML margin
-      const TOP_MARGIN = 97;
-      const refRawX = (LEFT_MARGIN / layout.pageWidth) * canvasW;
-      const refRawY = (TOP_MARGIN / layout.totalHeight) * canvasH;
-      setCalibration(prev => ({
+      // User clicked where the score top-left corner (inside the page margins) is in the image.
+      const refRawX = (layout.margins.left / layout.pageWidth) * canvasW;
+      const refRawY = (layout.margins.top / layout.pageHeight) * canvasH; // the image shows one page
+      updateCalibration('Set origin', prev => ({
         ...prev,
-        offsetX: px - refRawX * prev.scaleX,
-        offsetY: py - refRawY * prev.scaleY,
+        ...offsetToPlace(prev, canvasW, canvasH, { x: refRawX, y: refRawY }, { x: px, y: py }),
       }));
       setIsCalibrating(false);
     },
-    [],
+    [layout, updateCalibration],
   );
 
-  // ── Note correction handlers ────────────────────────────────────────────
-  const handleSaveCorrection = useCallback((id: string, correction: NoteCorrection) => {
-    setCorrections(prev => {
-      const next = new Map(prev);
-      next.set(id, correction);
-      return next;
+  const handleAutoAlign = useCallback((result: AlignResult | null) => {
+    if (!result) {
+      setAlignStatus({ ok: false, message: 'No staves matched — align manually below.' });
+      return;
+    }
+    updateCalibration('Auto-align', () => result.calibration);
+    setAlignStatus({
+      ok: true,
+      message: `Aligned ${result.systems} ${result.systems === 1 ? 'system' : 'systems'} to ${result.matched} `
+        + `${result.matched === 1 ? 'staff' : 'staves'} (±${result.residual.toFixed(1)} px).`,
     });
+  }, [updateCalibration]);
+
+  const handleToggleCorners = useCallback(() => {
+    if (!isEditingCorners) {
+      // Start from the uncorrected page so the handles sit on the image corners
+      if (!calibration.perspective) {
+        updateCalibration('Adjust corners', prev => ({ ...prev, perspective: IDENTITY_QUAD }), 'corners');
+      }
+    }
+    setIsEditingCorners(!isEditingCorners);
+  }, [isEditingCorners, calibration.perspective, updateCalibration]);
+
+  const handleSystemSelect = useCallback((systemIndex: number) => {
+    setSelectedSystem(systemIndex);
+    setIsPickingSystem(false);
   }, []);
 
+  // ── Shared hover / selection ────────────────────────────────────────────
+  const hoverFrom = useCallback((source: NoteHighlight['source']) => (id: string | null) => {
+    // Leaving a note only clears the hover if this view set it
+    setHover(prev => id ? { id, source } : prev?.source === source ? null : prev);
+  }, []);
+
+  const selectFrom = useCallback((source: NoteHighlight['source']) => (note: NoteData) => {
+    setSelection({ id: note.id, source });
+    setEditingNote(note);
+  }, []);
+
+  // ── Note correction handlers ────────────────────────────────────────────
+  const notesById = useMemo(() => new Map(effectiveNotes.map(n => [n.id, n])), [effectiveNotes]);
+
+  const setCorrection = useCallback((label: string, id: string, correction: NoteCorrection, mergeKey?: string) => {
+    commit(label, s => {
+      const next = new Map(s.corrections);
+      next.set(id, correction);
+      return { ...s, corrections: next };
+    }, mergeKey);
+  }, [commit]);
+
+  const handleSaveCorrection = useCallback((id: string, correction: NoteCorrection) => {
+    // Successive quick edits of one note fold into one history entry
+    setCorrection(`Correct ${noteLabel(notesById.get(id))}`, id, correction, `correct:${id}`);
+  }, [notesById, setCorrection]);
+
   const handleMarkOK = useCallback((id: string) => {
-    setCorrections(prev => {
-      const next = new Map(prev);
-      next.set(id, { status: 'verified' });
+    setCorrection(`Verify ${noteLabel(notesById.get(id))}`, id, { status: 'verified' });
+  }, [notesById, setCorrection]);
+
+  // ── Structural edits: add, delete, note ↔ rest, split, merge ────────────
+  const handleInsertAt = useCallback((point: ScorePoint) => {
+    const ins = placeNote(point, effectiveNotes, { corrections, insertions }, layout, parts);
+    if (!ins) return;
+    const note = insertedNoteData(ins, layout, parts);
+    commit(`Add ${noteLabel(note)}`, s => ({ ...s, ...insertNote(s, ins) }));
+    setSelection({ id: ins.id, source: 'overlay' });
+    setEditingNote(note);
+  }, [effectiveNotes, corrections, insertions, layout, parts, commit]);
+
+  // ── Dragging a note head to a new staff position ────────────────────────
+  const handleNoteDrag = useCallback((note: NoteData, y: number) => {
+    const pitch = pitchAtY(note, y, layout, parts);
+    if (!pitch) return;
+    // Back where it started: nothing to change
+    const moved = pitch.step !== note.step || pitch.octave !== note.octave;
+    setDragPreview(moved
+      ? { note, correction: { ...corrections.get(note.id), ...pitch, status: 'corrected' } }
+      : null);
+  }, [layout, parts, corrections]);
+
+  const handleNoteDragEnd = useCallback(() => {
+    if (!dragPreview) return;
+    const { note, correction: c } = dragPreview;
+    setCorrection(`Move ${noteLabel(note)} to ${pitchName(c.step!, c.alter!, c.octave!)}`, note.id, c);
+    setDragPreview(null);
+  }, [dragPreview, setCorrection]);
+
+  /** Commit a structural edit, if the note allows it; null when it does not. */
+  const structuralEdit = (label: string, edit: (e: NoteEdits) => NoteEdits | null) =>
+    edit({ corrections, insertions }) && (() => commit(label, s => ({ ...s, ...(edit(s) ?? s) })));
+
+  // The dialog's note as it is now, for the chord and neighbours it has in the edited score
+  const editingCurrent = editingNote && notesById.get(editingNote.id);
+
+  // ── Batch edits on the selected notes ───────────────────────────────────
+  const handleNoteToggle = useCallback((note: NoteData) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(note.id)) next.add(note.id);
       return next;
     });
   }, []);
 
+  const handleNotesSelect = useCallback((ids: string[]) => {
+    setSelectedIds(prev => new Set([...prev, ...ids]));
+  }, []);
+
+  // Deleted notes drop out of the selection
+  const batchNotes = useMemo(() => effectiveNotes.filter(n => selectedIds.has(n.id)), [effectiveNotes, selectedIds]);
+  const batchPitched = batchNotes.filter(n => !n.isRest);
+
+  const batchEdit = (label: string, targets: NoteData[], edit: (n: NoteData, prev: NoteCorrection | undefined) => NoteCorrection) => {
+    if (targets.length === 0) return;
+    const count = `${targets.length} ${targets.length === 1 ? 'note' : 'notes'}`;
+    commit(label.replace('#', count), s => ({ ...s, ...correctAll(s, targets, edit) }));
+  };
+
+  const scopeCounts = useMemo(() => {
+    const counts = {} as Record<BatchScope, number>;
+    for (const scope of ['measure', 'system', 'part'] as const) {
+      counts[scope] = confidentNotesIn(effectiveNotes, batchNotes, scope, threshold).length;
+    }
+    return counts;
+  }, [effectiveNotes, batchNotes, threshold]);
+
+  // ── Undo / redo ─────────────────────────────────────────────────────────
+  const historyList = useMemo(() => historyEntries(history), [history]);
+
+  useEffect(() => {
+    if (editingNote) return; // the dialog has the keyboard
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep their own undo; sliders and buttons do not have one
+      const target = e.target as HTMLElement | null;
+      if (target?.tagName === 'TEXTAREA' || target?.isContentEditable) return;
+      if (target instanceof HTMLInputElement && !['range', 'checkbox', 'button'].includes(target.type)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) setHistory(undo);
+      else if ((key === 'z' && e.shiftKey) || key === 'y') setHistory(redo);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [editingNote]);
+
+  // ── Review mode: step through low-confidence notes from the keyboard ───
+  const queue = useMemo(() => reviewQueue(effectiveNotes, threshold), [effectiveNotes, threshold]);
+  const reviewPos = queue.findIndex(n => n.id === reviewId);
+  const reviewNote = reviewPos >= 0 ? queue[reviewPos] : null;
+
+  const reviewGoTo = useCallback((id: string) => {
+    setReviewId(id);
+    setSelection({ id, source: 'review' });
+  }, []);
+
+  const startReview = useCallback(() => {
+    const first = queue[Math.max(0, nextUnreviewed(queue, -1))];
+    setReviewing(true);
+    if (first) reviewGoTo(first.id);
+  }, [queue, reviewGoTo]);
+
+  // A threshold change can drop the current note from the queue
+  useEffect(() => {
+    if (reviewing && reviewPos < 0 && queue.length > 0) reviewGoTo(queue[Math.max(0, nextUnreviewed(queue, -1))].id);
+  }, [reviewing, reviewPos, queue, reviewGoTo]);
+
+  const reviewAccept = useCallback(() => {
+    if (!reviewNote) return;
+    // A note already corrected keeps its correction
+    if (!corrections.has(reviewNote.id)) handleMarkOK(reviewNote.id);
+    let next = nextUnreviewed(queue, reviewPos);
+    if (next < 0) next = nextUnreviewed(queue, -1);
+    if (next >= 0 && next !== reviewPos) reviewGoTo(queue[next].id);
+  }, [reviewNote, reviewPos, queue, corrections, handleMarkOK, reviewGoTo]);
+
+  const reviewEdit = useCallback((edit: (n: NoteData, prev: NoteCorrection | undefined) => NoteCorrection) => {
+    if (reviewNote) handleSaveCorrection(reviewNote.id, edit(reviewNote, corrections.get(reviewNote.id)));
+  }, [reviewNote, corrections, handleSaveCorrection]);
+
+  const exitReview = useCallback(() => {
+    setReviewing(false);
+    setReviewId(null);
+  }, []);
+
+  // ── Export corrected score ──────────────────────────────────────────────
+  const handleExport = useCallback(() => {
+    if (!score) return;
+    downloadText(`${workTitle(score) || 'score'}.musicxml`, exportMusicXml(score, corrections, insertions), 'application/vnd.recordare.musicxml+xml');
+  }, [score, corrections, insertions]);
+
   // ── Stats ───────────────────────────────────────────────────────────────
   const correctedCount = [...corrections.values()].filter(c => c.status === 'corrected' || c.status === 'verified').length;
+  const progress = useMemo(() => reviewProgress(effectiveNotes, parts.length, layout), [effectiveNotes, parts.length, layout]);
+
+  // ── Session persistence ─────────────────────────────────────────────────
+  const currentSession = useMemo((): ReviewSession | null => session && score && {
+    ...session,
+    updated: Date.now(),
+    images: pages,
+    score,
+    corrections,
+    insertions,
+    calibration,
+    threshold,
+    noteCount: effectiveNotes.length,
+    reviewedCount: correctedCount,
+  }, [session, score, pages, corrections, insertions, calibration, threshold, effectiveNotes.length, correctedCount]);
+
+  /** The latest state of the open session while its save waits for the edits to pause. */
+  const pendingSave = useRef<ReviewSession | null>(null);
+
+  const flushSave = useCallback(() => {
+    const pending = pendingSave.current;
+    if (!pending) return;
+    pendingSave.current = null;
+    saveSession(pending).then(refreshSessions, err => {
+      console.error('Session save error:', err);
+      setSessionError(`Could not save this session: ${err instanceof Error ? err.message : err}`);
+    });
+  }, [refreshSessions]);
+
+  // Save once the edits pause, not on every slider step
+  useEffect(() => {
+    if (!currentSession) return;
+    pendingSave.current = currentSession;
+    const timer = setTimeout(flushSave, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentSession, flushSave]);
+
+  // …but at once when another session (or none) takes its place, and when the tab is hidden or closed
+  const sessionId = currentSession?.id;
+  useEffect(() => {
+    const onVisibility = () => document.visibilityState === 'hidden' && flushSave();
+    window.addEventListener('beforeunload', flushSave);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      window.removeEventListener('beforeunload', flushSave);
+      document.removeEventListener('visibilitychange', onVisibility);
+      flushSave();
+    };
+  }, [sessionId, flushSave]);
+
+  /** Show a saved or imported session with its edits as the start of a new history. */
+  const resumeSession = useCallback((saved: ReviewSession, label: string) => {
+    showPages(saved.images);
+    showScore(saved.score, parseScore(saved.score));
+    setHistory(startHistory(label, {
+      corrections: saved.corrections,
+      insertions: saved.insertions,
+      calibration: saved.calibration,
+    }));
+    setThreshold(saved.threshold);
+    setAlignStatus(null);
+    setSession({ id: saved.id, name: saved.name, created: saved.created });
+  }, [showPages, showScore]);
+
+  const handleOpenSession = useCallback(async (id: string) => {
+    setLoadError(null);
+    try {
+      const saved = await loadSession(id);
+      resumeSession(saved, `Resumed ${saved.name}`);
+    } catch (err) {
+      console.error('Session load error:', err);
+      setLoadError(String(err));
+    }
+  }, [resumeSession]);
+
+  const handleImportSession = useCallback(async (file: File) => {
+    setLoadError(null);
+    try {
+      // Saved under a new id by the autosave once it is on screen
+      resumeSession(await sessionFromBundle(await file.text()), `Imported ${file.name}`);
+    } catch (err) {
+      console.error('Session import error:', err);
+      setLoadError(String(err));
+    }
+  }, [resumeSession]);
+
+  const handleExportSession = useCallback(async (id: string) => {
+    try {
+      // The open session may have edits the autosave has not written yet
+      const saved = id === currentSession?.id ? currentSession : await loadSession(id);
+      downloadText(`${saved.name}${BUNDLE_EXTENSION}`, await sessionToBundle(saved), 'application/json');
+    } catch (err) {
+      console.error('Session export error:', err);
+      setLoadError(String(err));
+    }
+  }, [currentSession]);
+
+  const handleDeleteSession = useCallback((id: string) => {
+    // Deleting the open session also stops it being saved again
+    if (id === session?.id) {
+      pendingSave.current = null;
+      setSession(null);
+    }
+    deleteSession(id).then(refreshSessions, err => setSessionError(`Could not delete the session: ${err}`));
+  }, [session, refreshSessions]);
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100">
@@ -135,33 +570,111 @@ export default function App() {
                 {correctedCount} corrected
               </span>
             )}
+            {progress.overall.total > 0 && (
+              <span className="text-xs text-slate-300 bg-slate-800 rounded-full px-3 py-1 tabular-nums">
+                {percentReviewed(progress.overall)}% reviewed
+              </span>
+            )}
             {effectiveNotes.length > 0 && (
               <span className="text-xs text-slate-500 bg-slate-800 rounded-full px-3 py-1">
                 {effectiveNotes.length} notes loaded
               </span>
             )}
+            {score && (
+              <button
+                onClick={handleExport}
+                className="text-xs text-slate-200 bg-blue-700 hover:bg-blue-600 rounded-full px-3 py-1 transition-colors"
+              >
+                Export MusicXML
+              </button>
+            )}
           </div>
         </div>
       </header>
 
       {/* ── Main layout: sidebar | image overlay | VexFlow ─────────────── */}
-      <main className="max-w-[1800px] mx-auto px-4 sm:px-6 py-6 grid grid-cols-1 xl:grid-cols-[260px_1fr_1fr] gap-6">
+      <main className={`max-w-[1800px] mx-auto px-4 sm:px-6 py-6 grid grid-cols-1 xl:grid-cols-[260px_1fr_1fr] gap-6
+                        ${reviewing ? 'pb-32' : ''}`}>
 
         {/* ─ Left sidebar ─ */}
         <aside className="flex flex-col gap-4 order-1 xl:order-1">
           <SectionHeader
             icon={<UploadIcon />}
-            title="Upload Image"
-            subtitle="Original sheet music scan"
+            title="Upload Pages"
+            subtitle="Page scans, a PDF, or a MusicXML file"
+          />
+          <UploadArea onUpload={handleUpload} hasImage={pageImages.length > 0} />
+
+          <SectionHeader
+            icon={<SessionsIcon />}
+            title="Sessions"
+            subtitle="Saved in this browser &middot; Share as a file"
+          />
+          <SessionList
+            sessions={sessions}
+            currentId={session?.id ?? null}
+            error={sessionError}
+            onOpen={handleOpenSession}
+            onExport={handleExportSession}
+            onDelete={handleDeleteSession}
+            onImport={handleImportSession}
           />
-          <UploadArea onUpload={handleUpload} hasImage={!!imageUrl} />
 
           <SectionHeader
             icon={<SlidersIcon />}
             title="Controls"
             subtitle="Adjust recognition threshold"
           />
-          <Controls threshold={threshold} onChange={setThreshold} notes={effectiveNotes} />
+          <Controls threshold={threshold} onChange={setThreshold} notes={effectiveNotes} onStartReview={startReview} />
+
+          {progress.overall.total > 0 && (
+            <>
+              <SectionHeader
+                icon={<ProgressIcon />}
+                title="Progress"
+                subtitle="Reviewed notes &middot; Click a bar to jump there"
+              />
+              <ProgressPanel
+                progress={progress}
+                parts={parts}
+                measures={layout.measures}
+                threshold={threshold}
+                current={focus?.measureIndex ?? null}
+                onSelect={measureIndex => setFocus({ measureIndex })}
+              />
+            </>
+          )}
+
+          {batchNotes.length > 0 && (
+            <>
+              <SectionHeader
+                icon={<SelectIcon />}
+                title="Selection"
+                subtitle="Edit the Shift-selected notes together"
+              />
+              <BatchPanel
+                count={batchNotes.length}
+                scopeCounts={scopeCounts}
+                // A note already corrected keeps its correction
+                onVerify={() => batchEdit('Verify #', batchNotes.filter(n => !isReviewed(n)), (_, prev) => prev ?? { status: 'verified' })}
+                onTranspose={(steps) => batchEdit(
+                  `Move # ${Math.abs(steps) === 7 ? 'an octave' : 'a step'} ${steps > 0 ? 'up' : 'down'}`,
+                  batchPitched,
+                  (n, prev) => stepPitch(n, prev, steps, keyFifthsOf(n, parts)),
+                )}
+                onAlter={(alter) => alter === null
+                  ? batchEdit('Reset accidentals of #', batchPitched, (n, prev) => setAlter(n, prev, keyAlterOf(n, parts)))
+                  : batchEdit(`Set accidental of # to ${ALTER_SYMBOL[alter] ?? '\u266E'}`, batchPitched, (n, prev) => setAlter(n, prev, alter))}
+                onDuration={(noteType) => batchEdit(`Make # ${noteType}`, batchNotes, (n, prev) => setDuration(n, prev, noteType))}
+                onVerifyScope={(scope) => batchEdit(
+                  `Verify # above threshold (${scope})`,
+                  confidentNotesIn(effectiveNotes, batchNotes, scope, threshold),
+                  (_, prev) => prev ?? { status: 'verified' },
+                )}
+                onClear={() => setSelectedIds(new Set())}
+              />
+            </>
+          )}
 
           <SectionHeader
             icon={<TargetIcon />}
@@ -170,10 +683,40 @@ export default function App() {
           />
           <CalibrationPanel
             calibration={calibration}
-            onChange={setCalibration}
+            onChange={(c) => updateCalibration('Adjust calibration', () => c, 'calibration')}
             isCalibrating={isCalibrating}
             onStartCalibrate={() => setIsCalibrating(true)}
             onCancelCalibrate={() => setIsCalibrating(false)}
+            onAutoAlign={() => setAlignRequest(r => r + 1)}
+            alignStatus={alignStatus}
+            isEditingCorners={isEditingCorners}
+            onToggleCorners={handleToggleCorners}
+            layout={layout}
+            selectedSystem={selectedSystem}
+            isPickingSystem={isPickingSystem}
+            onStartPickSystem={() => setIsPickingSystem(true)}
+            onCancelPickSystem={() => setIsPickingSystem(false)}
+            onDeselectSystem={() => setSelectedSystem(null)}
+          />
+
+          <SectionHeader
+            icon={<LayersIcon />}
+            title="Overlay Layers"
+            subtitle="Show the inferred layout"
+          />
+          <LayerToggles layers={layers} onChange={setLayers} />
+
+          <SectionHeader
+            icon={<HistoryIcon />}
+            title="History"
+            subtitle="Undo or revert changes &middot; Ctrl+Z"
+          />
+          <HistoryPanel
+            entries={historyList}
+            current={history.past.length}
+            onJump={(i) => setHistory(h => jumpTo(h, i))}
+            onUndo={() => setHistory(undo)}
+            onRedo={() => setHistory(redo)}
           />
 
           {/* Key signature info */}
@@ -183,40 +726,79 @@ export default function App() {
               {parts.map((p, i) => (
                 <div key={p.id} className="flex items-center gap-2">
                   <span className="text-slate-500">Part {i + 1}:</span>
-                  <span className="text-slate-300">
-                    {p.clef.sign === 'G' ? 'Treble' : p.clef.sign === 'F' ? 'Bass' : p.clef.sign} clef
-                    {p.clef.octaveChange === -1 && ' (8vb)'}
-                  </span>
+                  <span className="text-slate-300">{p.clefs.map(clefLabel).join(' / ')}</span>
                 </div>
               ))}
               <div className="flex items-center gap-2">
                 <span className="text-slate-500">Key:</span>
-                <span className="text-slate-300">
-                  {keyLabel(parts[0]?.key.fifths ?? 0)} ({parts[0]?.key.fifths ?? 0} {(parts[0]?.key.fifths ?? 0) < 0 ? 'flats' : 'sharps'})
-                </span>
+                <span className="text-slate-300">{keySignatureLabel(parts[0].key)}</span>
               </div>
               <div className="flex items-center gap-2">
                 <span className="text-slate-500">Time:</span>
-                <span className="text-slate-300">
-                  {parts[0]?.time.senzaMisura ? 'Senza misura (free time)' : `${parts[0]?.time.beats}/${parts[0]?.time.beatType}`}
-                </span>
+                <span className="text-slate-300">{timeLabel(parts[0].time)}</span>
               </div>
+              {parts.some(p => p.changes.length > 0) && (
+                <div className="pt-1.5 border-t border-slate-700 space-y-1">
+                  <p className="text-slate-500">Changes:</p>
+                  {parts.flatMap((p, i) => p.changes.map(ch => (
+                    <div key={`${p.id}-${ch.measureIndex}-${ch.x ?? 'start'}`} className="flex gap-2">
+                      <span className="text-slate-500 whitespace-nowrap">
+                        m. {layout.measures[ch.measureIndex]?.label ?? ch.measureIndex + 1}
+                        {ch.x !== undefined && ' (mid-bar)'}{parts.length > 1 && `, P${i + 1}`}:
+                      </span>
+                      <span className="text-slate-300">
+                        {[
+                          ch.clefs && ch.clefs.map(clefLabel).join(' / '),
+                          ch.key && `Key ${keySignatureLabel(ch.key)}`,
+                          ch.time && timeLabel(ch.time),
+                        ].filter(Boolean).join(' · ')}
+                      </span>
+                    </div>
+                  )))}
+                </div>
+              )}
             </div>
           )}
 
-          {isDigitizing && (
+          {layout.measures.length > 0 && (
+            <>
+              <SectionHeader
+                icon={<BarsIcon />}
+                title="Measures"
+                subtitle="Jump to a bar in both views"
+              />
+              <MeasureNavigator
+                measures={layout.measures}
+                current={focus?.measureIndex ?? null}
+                onSelect={measureIndex => setFocus({ measureIndex })}
+              />
+            </>
+          )}
+
+          {digitizing && (
             <div className="rounded-xl border border-blue-800 bg-blue-950/50 p-4 text-sm text-blue-300 flex items-center gap-2">
               <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24" fill="none">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
               </svg>
-              Digitizing score via OMR API...
+              {digitizing.page === 0
+                ? 'Preparing pages...'
+                : digitizing.total > 1
+                  ? `Digitizing page ${digitizing.page} of ${digitizing.total} via OMR API...`
+                  : 'Digitizing score via OMR API...'}
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <div className="rounded-xl border border-amber-800 bg-amber-950/50 p-4 text-xs text-amber-300 space-y-1">
+              <strong className="text-sm">Warnings</strong>
+              {warnings.map((w, i) => <p key={i}>{w}</p>)}
             </div>
           )}
 
           {loadError && (
             <div className="rounded-xl border border-red-800 bg-red-950/50 p-4 text-sm text-red-300">
-              <strong>OMR API error:</strong> {loadError}
+              <strong>Could not load score:</strong> {loadError}
             </div>
           )}
         </aside>
@@ -226,17 +808,37 @@ export default function App() {
           <SectionHeader
             icon={<ImageIcon />}
             title="Original + Overlay"
-            subtitle="OMR overlay on uploaded image &middot; Click notes to edit"
+            subtitle="OMR overlay on uploaded image &middot; Click notes to edit &middot; Shift-click or Shift-drag to select"
           />
           <ScoreViewer
-            imageUrl={imageUrl}
+            pageImages={pageImages}
             notes={effectiveNotes}
             threshold={threshold}
             layout={layout}
             calibration={calibration}
+            layers={layers}
             isCalibrating={isCalibrating}
+            isEditingCorners={isEditingCorners}
+            isPickingSystem={isPickingSystem}
+            isInserting={isInserting}
+            selectedSystem={selectedSystem}
+            focus={focus}
+            hover={hover}
+            selection={selection}
+            selectedIds={selectedIds}
+            alignRequest={alignRequest}
+            onAutoAlign={handleAutoAlign}
             onCalibrationClick={handleCalibrationClick}
-            onNoteClick={setEditingNote}
+            onCalibrationChange={(c) => updateCalibration('Adjust corners', () => c, 'corners')}
+            onSystemSelect={handleSystemSelect}
+            onNoteHover={hoverFrom('overlay')}
+            onNoteClick={selectFrom('overlay')}
+            onToggleInsert={() => setIsInserting(!isInserting)}
+            onInsertAt={handleInsertAt}
+            onNoteDrag={handleNoteDrag}
+            onNoteDragEnd={handleNoteDragEnd}
+            onNoteToggle={handleNoteToggle}
+            onNotesSelect={handleNotesSelect}
           />
         </section>
 
@@ -253,17 +855,48 @@ export default function App() {
             layout={layout}
             threshold={threshold}
             corrections={corrections}
+            focus={focus}
+            hover={hover}
+            selection={selection}
+            onNoteHover={hoverFrom('score')}
+            onNoteClick={selectFrom('score')}
           />
         </section>
       </main>
 
+      {reviewing && (
+        <ReviewBar
+          note={reviewNote}
+          position={reviewPos}
+          total={queue.length}
+          reviewed={queue.filter(isReviewed).length}
+          keyboardEnabled={!editingNote}
+          onAccept={reviewAccept}
+          onPitch={(steps) => reviewEdit((n, prev) => stepPitch(n, prev, steps, keyFifthsOf(n, parts)))}
+          onAlter={(alter) => reviewEdit((n, prev) => toggleAlter(n, prev, alter, keyFifthsOf(n, parts)))}
+          onDuration={(delta) => reviewEdit((n, prev) => stepDuration(n, prev, delta))}
+          onDots={() => reviewEdit(cycleDots)}
+          onNext={() => reviewPos < queue.length - 1 && reviewGoTo(queue[reviewPos + 1].id)}
+          onPrev={() => reviewPos > 0 && reviewGoTo(queue[reviewPos - 1].id)}
+          onOpenEditor={() => reviewNote && setEditingNote(reviewNote)}
+          onExit={exitReview}
+        />
+      )}
+
       {/* ── Edit Note Modal ────────────────────────────────────────────── */}
-      {editingNote && (
+      {editingNote && editingCurrent && (
         <EditNoteModal
           note={editingNote}
           onSave={handleSaveCorrection}
           onMarkOK={handleMarkOK}
           onClose={() => setEditingNote(null)}
+          onDelete={() => commit(`Delete ${noteLabel(editingCurrent)}`, s => ({ ...s, ...deleteNote(s, editingCurrent) }))}
+          onToggleRest={structuralEdit(
+            editingCurrent.isRest ? `Make note of ${noteLabel(editingCurrent)}` : `Make rest of ${noteLabel(editingCurrent)}`,
+            e => toggleRest(e, editingCurrent, effectiveNotes, layout, parts),
+          )}
+          onSplit={structuralEdit(`Split ${noteLabel(editingCurrent)}`, e => splitNote(e, editingCurrent, effectiveNotes, layout))}
+          onMerge={structuralEdit(`Merge ${noteLabel(editingCurrent)} with next`, e => mergeWithNext(e, editingCurrent, effectiveNotes))}
         />
       )}
     </div>
@@ -272,6 +905,27 @@ export default function App() {
 
 // ─── Small helpers ─────────────────────────────────────────────────────────
 
+function keySignatureLabel(key: KeyInfo): string {
+  return `${keyLabel(key.fifths)} (${Math.abs(key.fifths)} ${key.fifths < 0 ? 'flats' : 'sharps'})`;
+}
+
+function timeLabel(time: TimeInfo): string {
+  return time.senzaMisura ? 'Senza misura (free time)' : `${time.beats}/${time.beatType}`;
+}
+
+const ALTER_SYMBOL: Record<number, string> = { [-2]: '\u{1D12B}', [-1]: '\u266D', [1]: '\u266F', [2]: '\u{1D12A}' };
+
+function pitchName(step: string, alter: number, octave: number): string {
+  return `${step}${ALTER_SYMBOL[alter] ?? ''}${octave}`;
+}
+
+/** Short description of a note for the history list, e.g. "E♭4 (m. 3)". */
+function noteLabel(note: NoteData | undefined): string {
+  if (!note) return 'note';
+  const name = note.isRest ? 'rest' : pitchName(note.step, note.alter, note.octave);
+  return `${name} (m. ${note.measureNum})`;
+}
+
 function keyLabel(fifths: number): string {
   const map: Record<number, string> = {
     [-7]: 'C\u266D', [-6]: 'G\u266D', [-5]: 'D\u266D', [-4]: 'A\u266D', [-3]: 'E\u266D',
@@ -281,6 +935,19 @@ function keyLabel(fifths: number): string {
   return map[fifths] ?? 'C';
 }
 
+function workTitle(score: RawScore): string | undefined {
+  return (score['score-partwise']?.work as { 'work-title'?: string } | undefined)?.['work-title'];
+}
+
+function downloadText(filename: string, text: string, mime: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 // ─── Sub-components ────────────────────────────────────────────────────────
 
 function SectionHeader({
@@ -327,6 +994,14 @@ function TargetIcon() {
   );
 }
 
+function LayersIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12 3l9 5-9 5-9-5 9-5zm-9 10l9 5 9-5" />
+    </svg>
+  );
+}
+
 function ImageIcon() {
   return (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -335,6 +1010,46 @@ function ImageIcon() {
   );
 }
 
+function BarsIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M3 6h18M3 12h18M3 18h18M8 6v12M16 6v12" />
+    </svg>
+  );
+}
+
+function ProgressIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 20V10m6 10V4m6 16v-7m4 7H2" />
+    </svg>
+  );
+}
+
+function SelectIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 4h4M4 4v4m16-4h-4m4 0v4M4 20h4m-4 0v-4m16 4h-4m4 0v-4M9 12l2 2 4-4" />
+    </svg>
+  );
+}
+
+function HistoryIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-3-6.7M21 3v5h-5" />
+    </svg>
+  );
+}
+
+function SessionsIcon() {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+    </svg>
+  );
+}
+
 function MusicIcon() {
   return (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
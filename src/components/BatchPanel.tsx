@@ -0,0 +1,105 @@
+import React from 'react';
+import type { NoteType } from '../types';
+import type { BatchScope } from '../utils/review';
+
+interface Props {
+  /** Notes picked with Shift: a click or a rubber band on the overlay. */
+  count: number;
+  /** Unreviewed notes above the threshold in the selection's measures, systems and parts. */
+  scopeCounts: Record<BatchScope, number>;
+  onVerify: () => void;
+  onTranspose: (steps: number) => void;
+  /** An alter to write, or null to go back to the key signature's. */
+  onAlter: (alter: number | null) => void;
+  onDuration: (noteType: NoteType) => void;
+  onVerifyScope: (scope: BatchScope) => void;
+  onClear: () => void;
+}
+
+const DURATIONS: NoteType[] = ['whole', 'half', 'quarter', 'eighth', '16th', '32nd', '64th'];
+
+const SCOPES: [BatchScope, string][] = [['measure', 'Measure'], ['system', 'System'], ['part', 'Part']];
+
+export default function BatchPanel({
+  count,
+  scopeCounts,
+  onVerify,
+  onTranspose,
+  onAlter,
+  onDuration,
+  onVerifyScope,
+  onClear,
+}: Props) {
+  const btn = 'rounded-lg bg-slate-700 border border-slate-600 px-2 py-1 text-xs text-slate-200 ' +
+    'hover:bg-slate-600 disabled:opacity-40 disabled:hover:bg-slate-700 transition-colors';
+
+  return (
+    <div className="rounded-xl bg-slate-800/70 border border-slate-700 p-4 flex flex-col gap-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-300">
+          <span className="font-bold text-white tabular-nums">{count}</span> {count === 1 ? 'note' : 'notes'} selected
+        </span>
+        <button className="text-slate-400 hover:text-slate-200" onClick={onClear}>Clear</button>
+      </div>
+
+      <button
+        className="rounded-lg bg-green-700 hover:bg-green-600 border border-green-600 px-3 py-1.5
+                   font-medium text-white transition-colors"
+        onClick={onVerify}
+      >
+        Mark selected verified
+      </button>
+
+      <Row label="Transpose">
+        <button className={btn} onClick={() => onTranspose(-7)} title="Octave down">−8ve</button>
+        <button className={btn} onClick={() => onTranspose(-1)} title="Step down">−1</button>
+        <button className={btn} onClick={() => onTranspose(1)} title="Step up">+1</button>
+        <button className={btn} onClick={() => onTranspose(7)} title="Octave up">+8ve</button>
+      </Row>
+
+      <Row label="Accidental">
+        <button className={btn} onClick={() => onAlter(-1)}>♭</button>
+        <button className={btn} onClick={() => onAlter(0)}>♮</button>
+        <button className={btn} onClick={() => onAlter(1)}>♯</button>
+        <button className={btn} onClick={() => onAlter(null)} title="Back to the key signature">Key</button>
+      </Row>
+
+      <Row label="Duration">
+        <select
+          value=""
+          onChange={(e) => e.target.value && onDuration(e.target.value as NoteType)}
+          className="flex-1 bg-slate-700 text-slate-200 rounded-lg px-2 py-1 border border-slate-600
+                     focus:outline-none focus:border-blue-500"
+        >
+          <option value="">Set to…</option>
+          {DURATIONS.map(d => <option key={d} value={d}>{d.charAt(0).toUpperCase() + d.slice(1)}</option>)}
+        </select>
+      </Row>
+
+      <div className="pt-2 border-t border-slate-700">
+        <p className="text-slate-400 mb-1.5">Verify everything above the threshold in the selection's…</p>
+        <div className="flex gap-1.5">
+          {SCOPES.map(([scope, label]) => (
+            <button
+              key={scope}
+              className={`${btn} flex-1`}
+              disabled={scopeCounts[scope] === 0}
+              onClick={() => onVerifyScope(scope)}
+            >
+              {label} <span className="text-slate-400 tabular-nums">({scopeCounts[scope]})</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-16 shrink-0 text-slate-400">{label}</span>
+      <div className="flex flex-1 gap-1.5">{children}</div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React from 'react';
-import type { CalibrationState } from '../types';
+import type { CalibrationState, ScoreLayout, SystemCalibration } from '../types';
+import { systemAdjustment } from '../utils/transform';
 
 interface Props {
   calibration: CalibrationState;
@@ -7,6 +8,19 @@ interface Props {
   isCalibrating: boolean;
   onStartCalibrate: () => void;
   onCancelCalibrate: () => void;
+  onAutoAlign: () => void;
+  /** Outcome of the last automatic alignment, if any. */
+  alignStatus: { ok: boolean; message: string } | null;
+  /** True while the perspective corner handles are shown on the image. */
+  isEditingCorners: boolean;
+  onToggleCorners: () => void;
+  layout: ScoreLayout;
+  /** System whose own adjustment is being edited. */
+  selectedSystem: number | null;
+  isPickingSystem: boolean;
+  onStartPickSystem: () => void;
+  onCancelPickSystem: () => void;
+  onDeselectSystem: () => void;
 }
 
 function SliderRow({
@@ -45,14 +59,95 @@ function SliderRow({
   );
 }
 
+function SystemEditor({
+  systemIndex,
+  page,
+  adjustment,
+  isOverride,
+  onChange,
+  onClear,
+  onDone,
+}: {
+  systemIndex: number;
+  page: number;
+  adjustment: SystemCalibration;
+  /** False when `adjustment` is interpolated from other systems. */
+  isOverride: boolean;
+  onChange: (adj: SystemCalibration) => void;
+  onClear: () => void;
+  onDone: () => void;
+}) {
+  const set = (patch: Partial<SystemCalibration>) => onChange({ ...adjustment, ...patch });
+  const signed = (v: number) => `${v > 0 ? '+' : ''}${Math.round(v)}`;
+
+  return (
+    <div className="rounded-lg bg-slate-900/60 border border-blue-800 p-3 flex flex-col gap-2.5">
+      <div className="flex justify-between items-baseline text-xs">
+        <span className="text-slate-200 font-medium">System {systemIndex + 1} · page {page + 1}</span>
+        <span className={isOverride ? 'text-blue-400' : 'text-slate-500'}>
+          {isOverride ? 'own adjustment' : 'interpolated'}
+        </span>
+      </div>
+      <SliderRow
+        label="X Offset (px)"
+        value={Math.round(adjustment.offsetX)}
+        min={-100}
+        max={100}
+        step={1}
+        display={signed(adjustment.offsetX)}
+        onChange={(v) => set({ offsetX: v })}
+      />
+      <SliderRow
+        label="Y Offset (px)"
+        value={Math.round(adjustment.offsetY)}
+        min={-100}
+        max={100}
+        step={1}
+        display={signed(adjustment.offsetY)}
+        onChange={(v) => set({ offsetY: v })}
+      />
+      <SliderRow
+        label="Scale"
+        value={Math.round(adjustment.scale * 100)}
+        min={80}
+        max={120}
+        step={1}
+        display={`${adjustment.scale.toFixed(2)}×`}
+        onChange={(v) => set({ scale: v / 100 })}
+      />
+      <div className="flex gap-3 text-xs">
+        {isOverride && (
+          <button onClick={onClear} className="text-slate-400 hover:text-slate-200 underline">
+            Use interpolated
+          </button>
+        )}
+        <button onClick={onDone} className="ml-auto text-blue-400 hover:text-blue-300 underline">
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export default function CalibrationPanel({
   calibration,
   onChange,
   isCalibrating,
   onStartCalibrate,
   onCancelCalibrate,
+  onAutoAlign,
+  alignStatus,
+  isEditingCorners,
+  onToggleCorners,
+  layout,
+  selectedSystem,
+  isPickingSystem,
+  onStartPickSystem,
+  onCancelPickSystem,
+  onDeselectSystem,
 }: Props) {
   const set = (patch: Partial<CalibrationState>) => onChange({ ...calibration, ...patch });
+  const overrideCount = Object.keys(calibration.systems).length;
 
   return (
     <div className="rounded-xl bg-slate-800/70 border border-slate-700 p-4 flex flex-col gap-3">
@@ -85,6 +180,25 @@ export default function CalibrationPanel({
         )}
       </div>
 
+      {/* Staff-line detection */}
+      <div className="flex flex-col gap-1.5">
+        <button
+          onClick={onAutoAlign}
+          className="w-full rounded-lg bg-slate-700 hover:bg-slate-600 border border-slate-600
+                     text-slate-200 text-xs font-medium py-2 px-3 transition-colors text-left flex items-center gap-2"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M4 7h16M4 10h16M4 13h16M4 16h16M4 19h16" />
+          </svg>
+          Auto-align to staff lines
+        </button>
+        {alignStatus && (
+          <p className={`text-[11px] leading-snug ${alignStatus.ok ? 'text-green-400' : 'text-amber-400'}`}>
+            {alignStatus.message}
+          </p>
+        )}
+      </div>
+
       {/* Offset X */}
       <SliderRow
         label="X Offset (px)"
@@ -118,6 +232,91 @@ export default function CalibrationPanel({
         onChange={(v) => set({ scaleX: v / 100, scaleY: v / 100 })}
       />
 
+      {/* Rotation */}
+      <SliderRow
+        label="Rotation (°)"
+        value={calibration.rotation}
+        min={-15}
+        max={15}
+        step={0.1}
+        display={`${calibration.rotation > 0 ? '+' : ''}${calibration.rotation.toFixed(1)}°`}
+        onChange={(v) => set({ rotation: v })}
+      />
+
+      {/* Perspective */}
+      <div className="flex flex-col gap-1.5">
+        <div className="flex justify-between text-xs">
+          <span className="text-slate-400">Perspective</span>
+          <span className="text-slate-300">{calibration.perspective ? 'corrected' : 'off'}</span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onToggleCorners}
+            className={`flex-1 rounded-lg border text-xs font-medium py-1.5 px-3 transition-colors
+              ${isEditingCorners
+                ? 'bg-blue-700 hover:bg-blue-600 border-blue-500 text-white'
+                : 'bg-slate-700 hover:bg-slate-600 border-slate-600 text-slate-200'}`}
+          >
+            {isEditingCorners ? 'Done' : 'Adjust corners'}
+          </button>
+          {calibration.perspective && (
+            <button
+              onClick={() => set({ perspective: null })}
+              className="rounded-lg bg-slate-700/50 hover:bg-slate-700 border border-slate-600
+                         text-slate-400 hover:text-slate-200 text-xs py-1.5 px-3 transition-colors"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+        {isEditingCorners && (
+          <p className="text-[11px] leading-snug text-slate-400">
+            Drag the four corner handles onto the corners of the printed page.
+          </p>
+        )}
+      </div>
+
+      {/* Per-system adjustment */}
+      <div className="flex flex-col gap-2 pt-2 border-t border-slate-700">
+        <div className="flex justify-between text-xs">
+          <span className="text-slate-400">Per-system adjustment</span>
+          {overrideCount > 0 && (
+            <button onClick={() => set({ systems: {} })} className="text-slate-400 hover:text-slate-200 underline">
+              Clear all ({overrideCount})
+            </button>
+          )}
+        </div>
+        {selectedSystem !== null ? (
+          <SystemEditor
+            systemIndex={selectedSystem}
+            page={layout.systems[selectedSystem]?.page ?? 0}
+            adjustment={systemAdjustment(calibration, layout, selectedSystem)}
+            isOverride={selectedSystem in calibration.systems}
+            onChange={(adj) => set({ systems: { ...calibration.systems, [selectedSystem]: adj } })}
+            onClear={() => {
+              const { [selectedSystem]: _, ...rest } = calibration.systems;
+              set({ systems: rest });
+            }}
+            onDone={onDeselectSystem}
+          />
+        ) : isPickingSystem ? (
+          <div className="rounded-lg bg-amber-950/60 border border-amber-700 p-3 text-xs text-amber-300">
+            <p>Click a system on the score image.</p>
+            <button onClick={onCancelPickSystem} className="mt-2 text-xs text-amber-400 underline">
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={onStartPickSystem}
+            className="w-full rounded-lg bg-slate-700 hover:bg-slate-600 border border-slate-600
+                       text-slate-200 text-xs font-medium py-1.5 px-3 transition-colors"
+          >
+            Select a system…
+          </button>
+        )}
+      </div>
+
       {/* Note size */}
       <SliderRow
         label="Note size"
@@ -131,7 +330,7 @@ export default function CalibrationPanel({
 
       {/* Reset */}
       <button
-        onClick={() => onChange({ offsetX: 0, offsetY: 0, scaleX: 1, scaleY: 1, noteScale: 1 })}
+        onClick={() => onChange({ offsetX: 0, offsetY: 0, scaleX: 1, scaleY: 1, noteScale: 1, rotation: 0, perspective: null, systems: {} })}
         className="w-full rounded-lg bg-slate-700/50 hover:bg-slate-700 border border-slate-600
                    text-slate-400 hover:text-slate-200 text-xs py-1.5 transition-colors"
       >
@@ -6,13 +6,15 @@ interface Props {
   threshold: number;
   onChange: (v: number) => void;
   notes: NoteData[];
+  onStartReview: () => void;
 }
 
-export default function Controls({ threshold, onChange, notes }: Props) {
+export default function Controls({ threshold, onChange, notes, onStartReview }: Props) {
   const total = notes.filter((n) => !n.isRest).length;
   const above = notes.filter((n) => !n.isRest && n.confidence >= threshold).length;
   const below = total - above;
   const pct = total > 0 ? Math.round((above / total) * 100) : 0;
+  const mock = notes.filter((n) => !n.isRest && n.confidenceSource === 'mock').length;
 
   return (
     <div className="flex flex-col gap-4 rounded-xl bg-slate-800/70 border border-slate-700 p-5">
@@ -84,6 +86,25 @@ export default function Controls({ threshold, onChange, notes }: Props) {
         </div>
       )}
 
+      {mock > 0 && (
+        <p className="text-[11px] text-amber-400/90 leading-snug">
+          {mock === total
+            ? 'No OMR confidence in this score — all scores are placeholders.'
+            : `${mock} of ${total} scores are placeholders (no OMR confidence).`}
+        </p>
+      )}
+
+      {below > 0 && (
+        <button
+          onClick={onStartReview}
+          className="w-full rounded-lg bg-red-900/40 hover:bg-red-900/60 border border-red-800
+                     text-red-200 text-xs font-medium py-2 px-3 transition-colors"
+          title="Step through notes below the threshold with the keyboard"
+        >
+          Review {below} low-confidence {below === 1 ? 'note' : 'notes'}
+        </button>
+      )}
+
       {/* Legend */}
       <div className="flex gap-5">
         <LegendItem color={COLOR_ABOVE} label="Confidence ≥ threshold" />
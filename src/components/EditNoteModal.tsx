@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { NoteData, NoteType, NoteCorrection } from '../types';
+import type { ConfidenceDetail, NoteData, NoteType, NoteCorrection } from '../types';
 
 const STEPS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'] as const;
 
@@ -13,6 +13,16 @@ const ALTERS = [
 
 const DURATIONS: NoteType[] = ['whole', 'half', 'quarter', 'eighth', '16th', '32nd', '64th'];
 
+const DOTS = [
+  { value: 0, label: 'No dot' },
+  { value: 1, label: 'Dotted' },
+  { value: 2, label: 'Double dotted' },
+];
+
+const DETAIL_LABELS: [keyof ConfidenceDetail, string][] = [
+  ['pitch', 'Pitch'], ['duration', 'Duration'], ['accidental', 'Accidental'],
+];
+
 function accSym(alter: number): string {
   if (alter === -2) return '𝄫';
   if (alter === -1) return '♭';
@@ -26,18 +36,35 @@ interface Props {
   onSave: (id: string, correction: NoteCorrection) => void;
   onMarkOK: (id: string) => void;
   onClose: () => void;
+  /** Structural edits; null where the note does not allow one. */
+  onDelete: () => void;
+  onToggleRest: (() => void) | null;
+  onSplit: (() => void) | null;
+  onMerge: (() => void) | null;
 }
 
-export default function EditNoteModal({ note, onSave, onMarkOK, onClose }: Props) {
+export default function EditNoteModal({
+  note,
+  onSave,
+  onMarkOK,
+  onClose,
+  onDelete,
+  onToggleRest,
+  onSplit,
+  onMerge,
+}: Props) {
   const [step, setStep]         = useState(note.step);
   const [octave, setOctave]     = useState(note.octave);
   const [alter, setAlter]       = useState(note.alter);
   const [noteType, setNoteType] = useState<NoteType>(note.noteType);
+  const [dots, setDots]         = useState(note.dots);
 
   const isBelow = note.confidence < 0.75; // visual indicator only
 
   function handleSave() {
-    onSave(note.id, { step, octave, alter, noteType, status: 'corrected' });
+    onSave(note.id, note.isRest
+      ? { noteType, dots, status: 'corrected' }
+      : { step, octave, alter, noteType, dots, status: 'corrected' });
     onClose();
   }
 
@@ -46,6 +73,11 @@ export default function EditNoteModal({ note, onSave, onMarkOK, onClose }: Props
     onClose();
   }
 
+  const structural = (action: (() => void) | null) => action && (() => {
+    action();
+    onClose();
+  });
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
@@ -55,9 +87,10 @@ export default function EditNoteModal({ note, onSave, onMarkOK, onClose }: Props
         {/* Header */}
         <div className="flex items-start justify-between mb-5">
           <div>
-            <h2 className="text-white font-bold text-lg">Edit Note</h2>
+            <h2 className="text-white font-bold text-lg">{note.isRest ? 'Edit Rest' : 'Edit Note'}</h2>
             <p className="text-slate-500 text-xs mt-0.5">
-              Part {note.partIndex + 1} · Measure {note.measureNum}
+              Part {note.partIndex + 1} · Measure {note.measureNum} · Voice {note.voice}
+              {note.isChord && ' · Chord'}
             </p>
           </div>
           <button
@@ -95,9 +128,23 @@ export default function EditNoteModal({ note, onSave, onMarkOK, onClose }: Props
             {isBelow ? 'LOW' : 'OK'}
           </span>
         </div>
+        {(note.confidenceSource !== 'omr' || note.confidenceDetail) && (
+          <div className="-mt-3 mb-5 px-1 text-[11px] text-slate-400 flex flex-wrap gap-x-3 gap-y-1 tabular-nums">
+            {note.confidenceSource === 'mock' && (
+              <span className="text-slate-500">Placeholder score — the OMR engine gave none for this note</span>
+            )}
+            {note.confidenceSource === 'manual' && (
+              <span className="text-slate-500">Added during review — not from the OMR engine</span>
+            )}
+            {DETAIL_LABELS.map(([key, label]) => {
+              const v = note.confidenceDetail?.[key];
+              return v != null && <span key={key}>{label} {(v * 100).toFixed(1)}%</span>;
+            })}
+          </div>
+        )}
 
         {/* Pitch row */}
-        <div className="mb-4">
+        {!note.isRest && <div className="mb-4">
           <label className="text-slate-400 text-xs font-medium block mb-1.5">Pitch</label>
           <div className="flex gap-2">
             {/* Step */}
@@ -142,21 +189,52 @@ export default function EditNoteModal({ note, onSave, onMarkOK, onClose }: Props
               {step}{accSym(alter)}{octave}
             </span>
           </p>
-        </div>
+        </div>}
 
         {/* Duration */}
         <div className="mb-5">
           <label className="text-slate-400 text-xs font-medium block mb-1.5">Duration</label>
-          <select
-            value={noteType}
-            onChange={(e) => setNoteType(e.target.value as NoteType)}
-            className="w-full bg-slate-800 text-white rounded-lg px-3 py-2
-                       border border-slate-600 text-sm focus:outline-none focus:border-blue-500"
-          >
-            {DURATIONS.map((d) => (
-              <option key={d} value={d}>{d.charAt(0).toUpperCase() + d.slice(1)}</option>
-            ))}
-          </select>
+          <div className="flex gap-2">
+            <select
+              value={noteType}
+              onChange={(e) => setNoteType(e.target.value as NoteType)}
+              className="flex-1 bg-slate-800 text-white rounded-lg px-3 py-2
+                         border border-slate-600 text-sm focus:outline-none focus:border-blue-500"
+            >
+              {DURATIONS.map((d) => (
+                <option key={d} value={d}>{d.charAt(0).toUpperCase() + d.slice(1)}</option>
+              ))}
+            </select>
+            <select
+              value={dots}
+              onChange={(e) => setDots(Number(e.target.value))}
+              className="flex-1 bg-slate-800 text-white rounded-lg px-2 py-2
+                         border border-slate-600 text-sm focus:outline-none focus:border-blue-500"
+            >
+              {DOTS.map((d) => (
+                <option key={d.value} value={d.value}>{d.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Structure */}
+        <div className="mb-5">
+          <label className="text-slate-400 text-xs font-medium block mb-1.5">Structure</label>
+          <div className="grid grid-cols-2 gap-2">
+            <StructureButton
+              label={note.isRest ? 'Make note' : 'Make rest'}
+              hint="Only lone notes, not chord notes"
+              onClick={structural(onToggleRest)}
+            />
+            <StructureButton label="Split in two" hint="Not possible for a 64th" onClick={structural(onSplit)} />
+            <StructureButton
+              label="Merge with next"
+              hint="Needs a next note in this voice and measure, and a length one note can have"
+              onClick={structural(onMerge)}
+            />
+            <StructureButton label="Delete" onClick={structural(onDelete)} danger />
+          </div>
         </div>
 
         {/* Action buttons */}
@@ -187,3 +265,31 @@ export default function EditNoteModal({ note, onSave, onMarkOK, onClose }: Props
     </div>
   );
 }
+
+function StructureButton({
+  label,
+  hint,
+  onClick,
+  danger = false,
+}: {
+  label: string;
+  /** Why the button is disabled. */
+  hint?: string;
+  onClick: (() => void) | null;
+  danger?: boolean;
+}) {
+  return (
+    <button
+      onClick={onClick ?? undefined}
+      disabled={!onClick}
+      title={onClick ? undefined : hint}
+      className={`rounded-lg border px-2 py-1.5 text-xs transition-colors disabled:opacity-40 ${
+        danger
+          ? 'bg-red-950/60 border-red-800 text-red-300 hover:bg-red-900/60 disabled:hover:bg-red-950/60'
+          : 'bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700 disabled:hover:bg-slate-800'
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
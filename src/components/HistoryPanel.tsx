@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from 'react';
+import type { HistoryEntry } from '../utils/history';
+
+interface Props {
+  /** Every entry, oldest first. */
+  entries: HistoryEntry<unknown>[];
+  /** Index of the present entry; later ones have been undone. */
+  current: number;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export default function HistoryPanel({ entries, current, onJump, onUndo, onRedo }: Props) {
+  const listRef = useRef<HTMLOListElement>(null);
+
+  // Keep the latest entries in view as the list grows
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [entries.length]);
+
+  const btn = 'flex-1 rounded-lg bg-slate-700 border border-slate-600 px-2 py-1 text-xs text-slate-200 ' +
+    'hover:bg-slate-600 disabled:opacity-40 disabled:hover:bg-slate-700 transition-colors';
+
+  return (
+    <div className="rounded-xl bg-slate-800/70 border border-slate-700 p-4 flex flex-col gap-2">
+      <div className="flex gap-1.5">
+        <button className={btn} disabled={current === 0} onClick={onUndo} title="Ctrl+Z">↶ Undo</button>
+        <button className={btn} disabled={current >= entries.length - 1} onClick={onRedo} title="Ctrl+Shift+Z">
+          Redo ↷
+        </button>
+      </div>
+      <ol ref={listRef} className="max-h-48 overflow-y-auto flex flex-col gap-0.5">
+        {entries.map((entry, i) => (
+          <li key={`${i}-${entry.time}`}>
+            <button
+              onClick={() => onJump(i)}
+              title={i === current ? 'Current state' : i < current ? 'Revert to here' : 'Redo up to here'}
+              className={`w-full flex items-baseline gap-2 rounded px-1.5 py-0.5 text-left text-xs transition-colors
+                ${i === current
+                  ? 'bg-blue-900/60 text-white'
+                  : i < current
+                    ? 'text-slate-300 hover:bg-slate-700'
+                    : 'text-slate-500 line-through hover:bg-slate-700'}`}
+            >
+              <span className="flex-1 truncate">{entry.label}</span>
+              <span className="text-[10px] text-slate-500 tabular-nums">{formatTime(entry.time)}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
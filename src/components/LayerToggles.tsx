@@ -0,0 +1,34 @@
+import React from 'react';
+import type { OverlayLayers } from '../types';
+import { COLOR_BARLINE, COLOR_STAFF, COLOR_SYSTEM } from '../utils/noteRenderer';
+
+interface Props {
+  layers: OverlayLayers;
+  onChange: (layers: OverlayLayers) => void;
+}
+
+const LAYERS: { key: keyof OverlayLayers; label: string; color: string }[] = [
+  { key: 'staffLines', label: 'Staff lines', color: COLOR_STAFF },
+  { key: 'barlines', label: 'Barlines', color: COLOR_BARLINE },
+  { key: 'systemBoxes', label: 'System boxes', color: COLOR_SYSTEM },
+  { key: 'measureNumbers', label: 'Measure numbers', color: COLOR_SYSTEM },
+];
+
+export default function LayerToggles({ layers, onChange }: Props) {
+  return (
+    <div className="rounded-xl bg-slate-800/70 border border-slate-700 p-4 flex flex-col gap-2">
+      {LAYERS.map(({ key, label, color }) => (
+        <label key={key} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={layers[key]}
+            onChange={(e) => onChange({ ...layers, [key]: e.target.checked })}
+            className="h-3.5 w-3.5 rounded accent-blue-500"
+          />
+          <span className="inline-block h-0.5 w-4 rounded-full" style={{ background: color }} />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
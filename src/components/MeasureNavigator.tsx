@@ -0,0 +1,70 @@
+import React from 'react';
+import type { MeasureInfo } from '../types';
+
+interface Props {
+  measures: MeasureInfo[];
+  /** Index of the measure last jumped to, highlighted in the grid. */
+  current: number | null;
+  onSelect: (measureIndex: number) => void;
+}
+
+export default function MeasureNavigator({ measures, current, onSelect }: Props) {
+  if (measures.length === 0) return null;
+
+  // One row of bars per system
+  const systems: MeasureInfo[][] = [];
+  for (const m of measures) (systems[m.systemIndex] ??= []).push(m);
+
+  return (
+    <div className="rounded-xl bg-slate-800/70 border border-slate-700 p-4 flex flex-col gap-2 max-h-64 overflow-y-auto">
+      {systems.map((row, si) => row && (
+        <div key={si} className="flex items-start gap-2">
+          <span className="text-[10px] text-slate-500 w-8 shrink-0 pt-1.5">Sys {si + 1}</span>
+          <div className="flex flex-wrap gap-1">
+            {row.map(m => (
+              <MeasureButton key={m.index} measure={m} active={m.index === current} onClick={() => onSelect(m.index)} />
+            ))}
+          </div>
+        </div>
+      ))}
+      <p className="text-[10px] text-slate-500 pt-1 border-t border-slate-700">
+        <span className="italic">Italic</span>: pickup bar · |: :| repeats · superscript: volta
+      </p>
+    </div>
+  );
+}
+
+function MeasureButton({
+  measure: m,
+  active,
+  onClick,
+}: {
+  measure: MeasureInfo;
+  active: boolean;
+  onClick: () => void;
+}) {
+  const title = [
+    `Measure ${m.label}`,
+    m.implicit && 'pickup',
+    m.repeatStart && 'repeat start',
+    m.repeatEnd && (m.repeatTimes ? `repeat ×${m.repeatTimes}` : 'repeat end'),
+    m.ending && `ending ${m.ending}`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`relative min-w-[2rem] rounded px-1.5 py-1 text-xs tabular-nums transition-colors border
+        ${active
+          ? 'bg-blue-700 border-blue-500 text-white'
+          : 'bg-slate-700 border-slate-600 text-slate-200 hover:bg-slate-600'}
+        ${m.implicit ? 'italic' : ''}`}
+    >
+      {m.repeatStart && <span className="text-amber-400">|:</span>}
+      {m.label}
+      {m.repeatEnd && <span className="text-amber-400">:|</span>}
+      {m.ending && <sup className="text-[9px] text-amber-300 ml-0.5">{m.ending}</sup>}
+    </button>
+  );
+}
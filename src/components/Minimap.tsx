@@ -0,0 +1,46 @@
+import React from 'react';
+import type { ZoomView } from '../utils/zoom';
+
+interface Props {
+  imageUrl: string;
+  view: ZoomView;
+  /** Fitted page size in CSS pixels (the viewport size). */
+  pageW: number;
+  pageH: number;
+  /** Centre the view on a fitted-page point. */
+  onCentre: (x: number, y: number) => void;
+}
+
+const MINIMAP_W = 120;
+
+/** Thumbnail of the page with the visible region outlined; click or drag to move the view. */
+export default function Minimap({ imageUrl, view, pageW, pageH, onCentre }: Props) {
+  const k = MINIMAP_W / pageW;
+  const h = pageH * k;
+
+  const moveTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onCentre((e.clientX - rect.left) / k, (e.clientY - rect.top) / k);
+  };
+
+  return (
+    <div
+      className="absolute bottom-3 right-3 rounded-md overflow-hidden border border-slate-500 bg-white/90 shadow-lg
+                 cursor-pointer touch-none"
+      style={{ width: MINIMAP_W, height: h }}
+      onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); moveTo(e); }}
+      onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) moveTo(e); }}
+    >
+      <img src={imageUrl} alt="" className="block w-full h-full select-none opacity-80" draggable={false} />
+      <div
+        className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+        style={{
+          left: (-view.panX / view.zoom) * k,
+          top: (-view.panY / view.zoom) * k,
+          width: MINIMAP_W / view.zoom,
+          height: h / view.zoom,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React from 'react';
+import { COLOR_ABOVE, COLOR_BELOW, COLOR_VERIFIED } from '../utils/noteRenderer';
+import { percentReviewed, type MeasureProgress, type ReviewProgress, type Tally } from '../utils/progress';
+import type { MeasureInfo, PartInfo } from '../types';
+
+interface Props {
+  progress: ReviewProgress;
+  parts: PartInfo[];
+  measures: MeasureInfo[];
+  threshold: number;
+  /** Index of the measure last jumped to, outlined in the heatmap. */
+  current: number | null;
+  onSelect: (measureIndex: number) => void;
+}
+
+export default function ProgressPanel({ progress, parts, measures, threshold, current, onSelect }: Props) {
+  const { overall } = progress;
+  if (overall.total === 0) return null;
+  const finished = overall.reviewed === overall.total;
+
+  // One heatmap block per system, a row per part and a column per measure
+  const systems: MeasureInfo[][] = [];
+  for (const m of measures) (systems[m.systemIndex] ??= []).push(m);
+
+  return (
+    <div className="rounded-xl bg-slate-800/70 border border-slate-700 p-4 flex flex-col gap-3 text-xs">
+      <div>
+        <div className="flex items-baseline justify-between mb-1">
+          <span className="text-slate-300">
+            <span className="font-bold text-white tabular-nums">{overall.reviewed}</span> of {overall.total} notes reviewed
+          </span>
+          <span className={`font-bold tabular-nums ${finished ? 'text-green-400' : 'text-slate-200'}`}>
+            {percentReviewed(overall)}%
+          </span>
+        </div>
+        <Bar tally={overall} />
+        {finished && <p className="mt-1.5 text-green-400">Finished — every note has been reviewed ✓</p>}
+      </div>
+
+      {parts.length > 1 && (
+        <div className="flex flex-col gap-1.5">
+          {parts.map((p, i) => (
+            <div key={p.id} className="flex items-center gap-2">
+              <span className="w-20 shrink-0 truncate text-slate-400" title={p.name}>
+                {p.name || `Part ${i + 1}`}
+              </span>
+              <div className="flex-1"><Bar tally={progress.parts[i]} /></div>
+              <span className="w-9 text-right tabular-nums text-slate-300">{percentReviewed(progress.parts[i])}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2 max-h-72 overflow-y-auto pt-2 border-t border-slate-700">
+        {systems.map((row, si) => row && (
+          <div key={si} className="flex items-start gap-2">
+            <div className="w-10 shrink-0 text-[10px] leading-tight">
+              <div className="text-slate-500">Sys {si + 1}</div>
+              <div className="tabular-nums text-slate-300">{percentReviewed(progress.systems[si])}%</div>
+            </div>
+            <div className="flex flex-col gap-0.5">
+              {parts.map((p, pi) => (
+                <div key={p.id} className="flex flex-wrap gap-0.5">
+                  {row.map(m => (
+                    <Cell
+                      key={m.index}
+                      cell={progress.measures[pi][m.index]}
+                      threshold={threshold}
+                      active={m.index === current}
+                      title={`m. ${m.label}${parts.length > 1 ? `, ${p.name || `Part ${pi + 1}`}` : ''}`}
+                      onClick={() => onSelect(m.index)}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-400">
+        <Legend color={COLOR_VERIFIED} label="Reviewed" />
+        <Legend color={withAlpha(COLOR_ABOVE, 0.7)} label="Left, above threshold" />
+        <Legend color={COLOR_BELOW} label="Left, below (darker = lower)" />
+      </div>
+    </div>
+  );
+}
+
+function Bar({ tally }: { tally: Tally }) {
+  return (
+    <div className="h-1.5 w-full rounded-full bg-slate-700 overflow-hidden">
+      <div
+        className="h-full rounded-full transition-all duration-300"
+        style={{ width: `${percentReviewed(tally)}%`, background: COLOR_VERIFIED }}
+      />
+    </div>
+  );
+}
+
+function Cell({
+  cell,
+  threshold,
+  active,
+  title,
+  onClick,
+}: {
+  cell: MeasureProgress;
+  threshold: number;
+  active: boolean;
+  title: string;
+  onClick: () => void;
+}) {
+  const detail = cell.total === 0
+    ? 'no notes'
+    : `${cell.reviewed}/${cell.total} reviewed${cell.lowest === null ? '' : ` · lowest ${Math.round(cell.lowest * 100)}%`}`;
+
+  return (
+    <button
+      onClick={onClick}
+      title={`${title} · ${detail}`}
+      className={`h-3.5 w-3.5 rounded-sm transition-transform hover:scale-125
+        ${cell.total === 0 ? 'bg-slate-700/60' : ''}
+        ${active ? 'outline outline-2 outline-white' : ''}`}
+      style={{ background: cellColour(cell, threshold) }}
+    />
+  );
+}
+
+/** Green once reviewed; otherwise blue, or a red that deepens the lower the worst note left scores. */
+function cellColour(cell: MeasureProgress, threshold: number): string | undefined {
+  if (cell.total === 0) return undefined;
+  if (cell.lowest === null) return COLOR_VERIFIED;
+  if (cell.lowest >= threshold) return withAlpha(COLOR_ABOVE, 0.7);
+  return withAlpha(COLOR_BELOW, 0.35 + 0.65 * (1 - cell.lowest / threshold));
+}
+
+function withAlpha(hex: string, alpha: number): string {
+  const n = parseInt(hex.slice(1), 16);
+  return `rgba(${n >> 16}, ${(n >> 8) & 0xff}, ${n & 0xff}, ${alpha.toFixed(2)})`;
+}
+
+function Legend({ color, label }: { color: string; label: string }) {
+  return (
+    <span className="flex items-center gap-1">
+      <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ background: color }} />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useEffect } from 'react';
+import type { NoteData } from '../types';
+
+interface Props {
+  /** Current note, with corrections applied; null when nothing is below the threshold. */
+  note: NoteData | null;
+  position: number;
+  total: number;
+  reviewed: number;
+  /** False while another dialog has the keyboard. */
+  keyboardEnabled: boolean;
+  onAccept: () => void;
+  onPitch: (steps: number) => void;
+  onAlter: (alter: number) => void;
+  onDuration: (delta: number) => void;
+  onDots: () => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onOpenEditor: () => void;
+  onExit: () => void;
+}
+
+const ACC_SYMBOL: Record<number, string> = { [-2]: '𝄫', [-1]: '♭', [1]: '♯', [2]: '𝄪' };
+
+const SHORTCUTS: [string, string][] = [
+  ['Enter', 'accept'],
+  ['↑ ↓', 'step'],
+  ['⇧↑ ⇧↓', 'octave'],
+  ['# b n', 'sharp / flat / natural'],
+  ['[ ]', 'longer / shorter'],
+  ['.', 'dots'],
+  ['← →', 'prev / next'],
+  ['E', 'edit'],
+  ['Esc', 'exit'],
+];
+
+/** Bottom bar for stepping through low-confidence notes from the keyboard. */
+export default function ReviewBar({
+  note,
+  position,
+  total,
+  reviewed,
+  keyboardEnabled,
+  onAccept,
+  onPitch,
+  onAlter,
+  onDuration,
+  onDots,
+  onNext,
+  onPrev,
+  onOpenEditor,
+  onExit,
+}: Props) {
+  useEffect(() => {
+    if (!keyboardEnabled) return;
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const action: (() => void) | undefined = {
+        Enter: onAccept,
+        ArrowUp: () => onPitch(e.shiftKey ? 7 : 1),
+        ArrowDown: () => onPitch(e.shiftKey ? -7 : -1),
+        '#': () => onAlter(1),
+        b: () => onAlter(-1),
+        n: () => onAlter(0),
+        '[': () => onDuration(-1),
+        ']': () => onDuration(1),
+        '.': onDots,
+        ArrowRight: onNext,
+        ArrowLeft: onPrev,
+        e: onOpenEditor,
+        Escape: onExit,
+      }[e.key];
+      if (!action) return;
+      e.preventDefault();
+      if (!note && e.key !== 'Escape') return;
+      action();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [keyboardEnabled, note, onAccept, onPitch, onAlter, onDuration, onDots, onNext, onPrev, onOpenEditor, onExit]);
+
+  const btn = 'rounded-lg bg-slate-800 border border-slate-600 px-3 py-1.5 text-xs text-slate-200 ' +
+    'hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 transition-colors';
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 border-t border-slate-700 bg-slate-900/95 backdrop-blur-sm">
+      <div className="max-w-[1800px] mx-auto px-4 sm:px-6 py-3 flex flex-wrap items-center gap-x-5 gap-y-2">
+        <div className="flex flex-col">
+          <span className="text-xs font-semibold text-slate-200">Review mode</span>
+          <span className="text-[11px] text-slate-400 tabular-nums">
+            {position + 1} of {total} · {reviewed === total ? 'all reviewed ✓' : `${reviewed} reviewed`}
+          </span>
+        </div>
+
+        {note ? (
+          <div className="flex items-baseline gap-2 text-sm">
+            <span className="font-bold text-white tabular-nums">
+              {note.step}{ACC_SYMBOL[note.alter] ?? ''}{note.octave}
+            </span>
+            <span className="text-slate-300">{note.noteType}{'.'.repeat(note.dots)}</span>
+            <span className="text-xs text-slate-500">
+              Part {note.partIndex + 1} · m. {note.measureNum} · {Math.round(note.confidence * 100)}%
+            </span>
+            {note.status !== 'unreviewed' && (
+              <span className="rounded bg-green-900/60 border border-green-700 px-1.5 text-[10px] text-green-300">
+                {note.status}
+              </span>
+            )}
+          </div>
+        ) : (
+          <span className="text-sm text-green-400">No notes below the threshold.</span>
+        )}
+
+        <div className="flex items-center gap-1.5">
+          <button className={btn} disabled={!note || position === 0} onClick={onPrev}>‹ Prev</button>
+          <button
+            className="rounded-lg bg-green-700 hover:bg-green-600 border border-green-600 px-3 py-1.5 text-xs
+                       font-medium text-white disabled:opacity-40 transition-colors"
+            disabled={!note}
+            onClick={onAccept}
+          >
+            Accept
+          </button>
+          <button className={btn} disabled={!note || position >= total - 1} onClick={onNext}>Next ›</button>
+          <button className={btn} disabled={!note} onClick={onOpenEditor}>Edit…</button>
+          <button className={btn} onClick={onExit}>Exit</button>
+        </div>
+
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-500 ml-auto">
+          {SHORTCUTS.map(([keys, label]) => (
+            <span key={keys}>
+              <kbd className="rounded bg-slate-800 border border-slate-600 px-1 text-slate-300">{keys}</kbd> {label}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
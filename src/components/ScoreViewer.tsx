@@ -4,30 +4,108 @@ import React, {
   useRef,
   useState,
 } from 'react';
-import type { NoteData, CalibrationState, ScoreLayout } from '../types';
-import { drawAllNotes, findNoteAt } from '../utils/noteRenderer';
+import type {
+  NoteData, NoteHighlight, CalibrationState, ScoreLayout, MeasureFocus, OverlayLayers, Quad, ScorePoint,
+} from '../types';
+import {
+  drawAllNotes,
+  drawLayoutLayers,
+  drawMeasureHighlight,
+  drawNoteRing,
+  drawSystemOutline,
+  findNoteAt,
+  findNotesIn,
+  findSystemAt,
+  measureBounds,
+  notePosition,
+  scorePointAt,
+  scorePointIn,
+  systemBounds,
+} from '../utils/noteRenderer';
+import { detectStaves, fitCalibration, type AlignResult } from '../utils/staffDetection';
+import { centreOn, clampView, FIT_VIEW, MAX_ZOOM, MIN_ZOOM, zoomAt, type ZoomView } from '../utils/zoom';
+import Minimap from './Minimap';
 import Tooltip from './Tooltip';
 
 interface Props {
-  imageUrl: string | null;
+  /** One image per score page, in page order. */
+  pageImages: string[];
   notes: NoteData[];
   threshold: number;
   layout: ScoreLayout;
   calibration: CalibrationState;
+  /** Layout guides to draw under the notes. */
+  layers: OverlayLayers;
   isCalibrating: boolean;
+  /** Show draggable handles for the perspective quad's corners. */
+  isEditingCorners: boolean;
+  /** Next click picks a system for per-system calibration. */
+  isPickingSystem: boolean;
+  /** Clicks add a note instead of selecting one. */
+  isInserting: boolean;
+  /** System outlined as the one being calibrated. */
+  selectedSystem: number | null;
+  focus: MeasureFocus | null;
+  /** Note under the pointer in either view, and the selected note. */
+  hover: NoteHighlight | null;
+  selection: NoteHighlight | null;
+  /** Notes picked for batch edits. */
+  selectedIds: Set<string>;
+  /** Bumped to ask for automatic alignment of the current page (0 = never asked). */
+  alignRequest: number;
+  onAutoAlign: (result: AlignResult | null) => void;
   onCalibrationClick: (px: number, py: number, canvasW: number, canvasH: number) => void;
+  onCalibrationChange: (c: CalibrationState) => void;
+  onSystemSelect: (systemIndex: number) => void;
+  onNoteHover: (id: string | null) => void;
   onNoteClick: (note: NoteData) => void;
+  onToggleInsert: () => void;
+  onInsertAt: (point: ScorePoint) => void;
+  /** A note head dragged up or down: `y` is where the pointer is, in tenths down the page stack. */
+  onNoteDrag: (note: NoteData, y: number) => void;
+  /** The drag is over; keep the pitch it reached. */
+  onNoteDragEnd: () => void;
+  /** Shift-click: add the note to the batch selection, or take it out. */
+  onNoteToggle: (note: NoteData) => void;
+  /** Shift-drag: add the notes inside the rubber band. */
+  onNotesSelect: (ids: string[]) => void;
 }
 
+/** Hover/click distance to a note, in screen pixels at any zoom. */
+const HIT_RADIUS = 18;
+/** Movement after which a press is a pan rather than a click. */
+const DRAG_THRESHOLD = 4;
+const ZOOM_STEP = 1.5;
+
 export default function ScoreViewer({
-  imageUrl,
+  pageImages,
   notes,
   threshold,
   layout,
   calibration,
+  layers,
   isCalibrating,
+  isEditingCorners,
+  isPickingSystem,
+  isInserting,
+  selectedSystem,
+  focus,
+  hover,
+  selection,
+  selectedIds,
+  alignRequest,
+  onAutoAlign,
   onCalibrationClick,
+  onCalibrationChange,
+  onSystemSelect,
+  onNoteHover,
   onNoteClick,
+  onToggleInsert,
+  onInsertAt,
+  onNoteDrag,
+  onNoteDragEnd,
+  onNoteToggle,
+  onNotesSelect,
 }: Props) {
   const imgRef = useRef<HTMLImageElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -35,39 +113,108 @@ export default function ScoreViewer({
 
   const [hovered, setHovered] = useState<NoteData | null>(null);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
+  const [page, setPage] = useState(0);
+  /** The page fitted to the viewer width, in CSS pixels; overlay coordinates use this size. */
+  const [pageSize, setPageSize] = useState({ w: 0, h: 0 });
+  const [view, setView] = useState<ZoomView>(FIT_VIEW);
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const imageUrl = pageImages[page] ?? null;
 
-  // ── Redraw canvas whenever image size, notes, threshold, or calibration changes
-  const redraw = useCallback(() => {
+  // New upload → back to the first page
+  useEffect(() => setPage(0), [pageImages]);
+
+  // Each page opens fitted
+  useEffect(() => setView(FIT_VIEW), [imageUrl]);
+
+  // Jumping to a measure turns to its page first
+  useEffect(() => {
+    const measure = focus ? layout.measures[focus.measureIndex] : undefined;
+    const target = measure && layout.systems[measure.systemIndex]?.page;
+    if (target != null && target < pageImages.length) setPage(target);
+  }, [focus]);
+
+  const fittedSize = () => {
+    const el = containerRef.current;
     const img = imgRef.current;
-    const canvas = canvasRef.current;
-    if (!img || !canvas) return;
+    if (!el || !img?.complete || img.naturalWidth === 0) return null;
+    const w = el.clientWidth;
+    return { w, h: (w * img.naturalHeight) / img.naturalWidth };
+  };
 
-    const w = img.clientWidth;
-    const h = img.clientHeight;
-    if (w === 0 || h === 0) return;
+  // ── Redraw canvas whenever image size, notes, threshold, calibration or view changes.
+  // The canvas covers only the viewport and is drawn at the zoomed resolution.
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const size = fittedSize();
+    if (!canvas || !size || size.w === 0) return;
+    const { w, h } = size;
+    setPageSize(prev => prev.w === w && prev.h === h ? prev : { w, h });
 
     const dpr = window.devicePixelRatio || 1;
-    canvas.width = w * dpr;
-    canvas.height = h * dpr;
+    canvas.width = Math.round(w * dpr);
+    canvas.height = Math.round(h * dpr);
     canvas.style.width = `${w}px`;
     canvas.style.height = `${h}px`;
 
     const ctx = canvas.getContext('2d')!;
     ctx.scale(dpr, dpr);
-    drawAllNotes(ctx, notes, threshold, w, h, layout, calibration);
-  }, [notes, threshold, layout, calibration]);
+    ctx.translate(view.panX, view.panY);
+    ctx.scale(view.zoom, view.zoom);
+    drawAllNotes(ctx, notes, threshold, w, h, layout, page, calibration);
+    drawLayoutLayers(ctx, layers, w, h, layout, page, calibration);
 
-  // Redraw on image load
+    const measure = focus ? layout.measures[focus.measureIndex] : undefined;
+    const box = measure && measureBounds(measure, w, h, layout, page, calibration);
+    if (box) drawMeasureHighlight(ctx, box);
+
+    const sysBox = selectedSystem !== null && systemBounds(selectedSystem, w, h, layout, page, calibration);
+    if (sysBox) drawSystemOutline(ctx, sysBox);
+
+    for (const note of notes) {
+      if (!selectedIds.has(note.id)) continue;
+      const p = notePosition(note, w, h, layout, page, calibration);
+      if (p) drawNoteRing(ctx, p, h, layout, calibration, 'selected');
+    }
+
+    // Shared hover and selection, wherever they came from
+    for (const [mark, kind] of [[hover, 'hover'], [selection, 'selected']] as const) {
+      const note = mark && notes.find(n => n.id === mark.id);
+      const p = note && notePosition(note, w, h, layout, page, calibration);
+      if (p) drawNoteRing(ctx, p, h, layout, calibration, kind);
+    }
+  }, [notes, threshold, layout, calibration, layers, focus, page, selectedSystem, view, hover, selection, selectedIds]);
+
+  // ── Automatic alignment: detect staff lines and fit the layout to them.
+  // Runs once per request, as soon as the page image has loaded.
+  const alignPending = useRef(false);
+  const tryAlign = useCallback(() => {
+    const img = imgRef.current;
+    const size = fittedSize();
+    if (!alignPending.current || !img || !size || size.w === 0) return;
+    alignPending.current = false;
+    const staves = detectStaves(img, img.naturalWidth, img.naturalHeight);
+    onAutoAlign(fitCalibration(staves, layout, page, size.w, size.h, size.w / img.naturalWidth, calibration));
+  }, [layout, page, calibration, onAutoAlign]);
+
+  useEffect(() => {
+    if (alignRequest === 0) return;
+    alignPending.current = true;
+    tryAlign();
+    // Only on a new request; tryAlign changes with every calibration tweak
+  }, [alignRequest]);
+
+  // Redraw (and run a pending alignment) on image load
   useEffect(() => {
     const img = imgRef.current;
     if (!img) return;
-    const onLoad = () => redraw();
+    const onLoad = () => { redraw(); tryAlign(); };
     img.addEventListener('load', onLoad);
     if (img.complete) redraw();
     return () => img.removeEventListener('load', onLoad);
-  }, [redraw, imageUrl]);
+  }, [redraw, tryAlign, imageUrl]);
 
-  // Redraw on threshold / notes / calibration change
+  // Redraw on threshold / notes / calibration / view change
   useEffect(() => {
     if (imgRef.current?.complete) redraw();
   }, [redraw]);
@@ -81,72 +228,351 @@ export default function ScoreViewer({
     return () => ro.disconnect();
   }, [redraw]);
 
-  // ── Mouse hover for tooltip ───────────────────────────────────────────────
-  const onMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const rect = canvas.getBoundingClientRect();
-    const px = e.clientX - rect.left;
-    const py = e.clientY - rect.top;
-    setMousePos({ x: e.clientX, y: e.clientY });
-    setHovered(findNoteAt(notes, px, py, canvas.clientWidth, canvas.clientHeight, layout, calibration));
+  // Bring the focused measure into view: centre it when zoomed in, then scroll
+  // the window so it sits in the upper third
+  useEffect(() => {
+    const container = containerRef.current;
+    const measure = focus ? layout.measures[focus.measureIndex] : undefined;
+    if (!container || !measure || pageSize.w === 0) return;
+    const box = measureBounds(measure, pageSize.w, pageSize.h, layout, page, calibration);
+    if (!box) return;
+    const v = centreOn(viewRef.current, box.x + box.w / 2, box.y + box.h / 2, pageSize.w, pageSize.h);
+    setView(v);
+    const top = container.getBoundingClientRect().top + window.scrollY + box.y * v.zoom + v.panY;
+    window.scrollTo({ top: Math.max(0, top - window.innerHeight / 3), behavior: 'smooth' });
+    // Only on a new focus request (or the page turn it causes), not when calibration changes
+  }, [focus, page]);
+
+  // ── Notes picked out elsewhere are brought into view here too.
+  // Only a selection turns the page or scrolls the window; hovering just pans.
+  const revealNote = (note: NoteData, scrollWindow: boolean) => {
+    const container = containerRef.current;
+    const p = notePosition(note, pageSize.w, pageSize.h, layout, page, calibration);
+    if (!container || !p) return;
+    let v = viewRef.current;
+    const vx = p.x * v.zoom + v.panX;
+    const vy = p.y * v.zoom + v.panY;
+    if (vx < 0 || vx > pageSize.w || vy < 0 || vy > pageSize.h) {
+      v = centreOn(v, p.x, p.y, pageSize.w, pageSize.h);
+      setView(v);
+    }
+    const top = container.getBoundingClientRect().top + p.y * v.zoom + v.panY;
+    if (scrollWindow && (top < 0 || top > window.innerHeight)) {
+      window.scrollTo({ top: Math.max(0, window.scrollY + top - window.innerHeight / 3), behavior: 'smooth' });
+    }
+  };
+
+  useEffect(() => {
+    if (!selection || selection.source === 'overlay') return;
+    const note = notes.find(n => n.id === selection.id);
+    const target = note && layout.systems[note.systemIndex]?.page;
+    if (!note || target == null) return;
+    if (target !== page && target < pageImages.length) setPage(target); // reveals once the page is shown
+    else revealNote(note, true);
+  }, [selection, page]);
+
+  useEffect(() => {
+    if (hover?.source !== 'score') return;
+    const note = notes.find(n => n.id === hover.id);
+    if (note) revealNote(note, false);
+  }, [hover]);
+
+  // Tell the other view what the pointer is over
+  useEffect(() => onNoteHover(hovered?.id ?? null), [hovered?.id]);
+
+  // ── Zoom: Ctrl/⌘ + wheel or trackpad pinch; plain wheel pans once zoomed in.
+  // Registered natively because React's wheel listener is passive.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      const rect = el.getBoundingClientRect();
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        const factor = Math.exp(-e.deltaY * (e.deltaMode === 1 ? 0.05 : 0.002));
+        setView(v => zoomAt(v, factor, e.clientX - rect.left, e.clientY - rect.top, rect.width, rect.height));
+      } else if (viewRef.current.zoom > MIN_ZOOM) {
+        e.preventDefault();
+        setView(v => clampView({ ...v, panX: v.panX - e.deltaX, panY: v.panY - e.deltaY }, rect.width, rect.height));
+      }
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [imageUrl]);
+
+  const zoomBy = (factor: number) =>
+    setView(v => zoomAt(v, factor, pageSize.w / 2, pageSize.h / 2, pageSize.w, pageSize.h));
+
+  // ── Pointer input: hover, drag-pan and two-finger pinch ───────────────────
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const pressStart = useRef({ x: 0, y: 0 });
+  /** Set once a press has moved far enough to be a drag, so its click is ignored. */
+  const dragged = useRef(false);
+  /** Note head pressed on, which a vertical drag repitches instead of panning. */
+  const noteDrag = useRef<NoteData | null>(null);
+  const [isDraggingNote, setIsDraggingNote] = useState(false);
+  /** Rubber band corners in fitted-page coordinates, while Shift-dragging. */
+  const [band, setBand] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+
+  const endNoteDrag = () => {
+    if (noteDrag.current && dragged.current) onNoteDragEnd();
+    noteDrag.current = null;
+    setIsDraggingNote(false);
+  };
+
+  /** Viewport point → fitted-page point, the coordinates the overlay works in. */
+  const toPage = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      px: (clientX - rect.left - view.panX) / view.zoom,
+      py: (clientY - rect.top - view.panY) / view.zoom,
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 1) {
+      pressStart.current = { x: e.clientX, y: e.clientY };
+      dragged.current = false;
+      if (!isCalibrating && !isPickingSystem && !isInserting) {
+        const { px, py } = toPage(e.clientX, e.clientY);
+        const hit = findNoteAt(notes, px, py, pageSize.w, pageSize.h, layout, page, calibration, HIT_RADIUS / view.zoom);
+        noteDrag.current = hit && !hit.isRest && !e.shiftKey ? hit : null;
+        if (e.shiftKey && !hit) setBand({ x0: px, y0: py, x1: px, y1: py });
+      }
+    } else {
+      endNoteDrag(); // a second finger means pinch
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const prev = pointers.current.get(e.pointerId);
+    if (!prev) {
+      // Hover
+      const { px, py } = toPage(e.clientX, e.clientY);
+      setMousePos({ x: e.clientX, y: e.clientY });
+      setHovered(findNoteAt(notes, px, py, pageSize.w, pageSize.h, layout, page, calibration, HIT_RADIUS / view.zoom));
+      return;
+    }
+    const cur = { x: e.clientX, y: e.clientY };
+    pointers.current.set(e.pointerId, cur);
+    const rect = e.currentTarget.getBoundingClientRect();
+
+    if (band && pointers.current.size === 1) {
+      const { px, py } = toPage(cur.x, cur.y);
+      setBand({ ...band, x1: px, y1: py });
+      const start = pressStart.current;
+      if (Math.hypot(cur.x - start.x, cur.y - start.y) > DRAG_THRESHOLD) dragged.current = true;
+      return;
+    }
+
+    if (noteDrag.current && pointers.current.size === 1 && !dragged.current) {
+      const dx = cur.x - pressStart.current.x;
+      const dy = cur.y - pressStart.current.y;
+      if (Math.hypot(dx, dy) <= DRAG_THRESHOLD) return;
+      if (Math.abs(dx) > Math.abs(dy)) noteDrag.current = null; // sideways: pan as usual
+    }
+    const dragNote = noteDrag.current;
+    if (dragNote && pointers.current.size === 1) {
+      dragged.current = true;
+      setIsDraggingNote(true);
+      setHovered(null);
+      const { px, py } = toPage(cur.x, cur.y);
+      onNoteDrag(dragNote, scorePointIn(dragNote.systemIndex, px, py, pageSize.w, pageSize.h, layout, page, calibration).y);
+      return;
+    }
+
+    if (pointers.current.size === 2) {
+      const other = [...pointers.current.entries()].find(([id]) => id !== e.pointerId)![1];
+      const before = Math.hypot(prev.x - other.x, prev.y - other.y);
+      const after = Math.hypot(cur.x - other.x, cur.y - other.y);
+      const mx = (cur.x + other.x) / 2 - rect.left;
+      const my = (cur.y + other.y) / 2 - rect.top;
+      dragged.current = true;
+      if (before > 0) {
+        setView(v => {
+          const z = zoomAt(v, after / before, mx, my, rect.width, rect.height);
+          return clampView({ ...z, panX: z.panX + (cur.x - prev.x) / 2, panY: z.panY + (cur.y - prev.y) / 2 }, rect.width, rect.height);
+        });
+      }
+      return;
+    }
+
+    if (view.zoom > MIN_ZOOM) {
+      setView(v => clampView({ ...v, panX: v.panX + cur.x - prev.x, panY: v.panY + cur.y - prev.y }, rect.width, rect.height));
+      const start = pressStart.current;
+      if (Math.hypot(cur.x - start.x, cur.y - start.y) > DRAG_THRESHOLD) dragged.current = true;
+      if (dragged.current) setHovered(null);
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointers.current.delete(e.pointerId);
+    endNoteDrag();
+    if (band) {
+      const box = {
+        x: Math.min(band.x0, band.x1),
+        y: Math.min(band.y0, band.y1),
+        w: Math.abs(band.x1 - band.x0),
+        h: Math.abs(band.y1 - band.y0),
+      };
+      const inside = findNotesIn(notes, box, pageSize.w, pageSize.h, layout, page, calibration);
+      if (inside.length > 0) onNotesSelect(inside.map(n => n.id));
+      setBand(null);
+    }
   };
 
   const onMouseLeave = () => setHovered(null);
 
   // ── Click handler (calibration or note edit) ──────────────────────────────
   const onClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const rect = canvas.getBoundingClientRect();
-    const px = e.clientX - rect.left;
-    const py = e.clientY - rect.top;
+    if (dragged.current) {
+      dragged.current = false;
+      return;
+    }
+    const { px, py } = toPage(e.clientX, e.clientY);
 
     if (isCalibrating) {
-      onCalibrationClick(px, py, canvas.clientWidth, canvas.clientHeight);
+      onCalibrationClick(px, py, pageSize.w, pageSize.h);
+      return;
+    }
+    if (isPickingSystem) {
+      const si = findSystemAt(px, py, pageSize.w, pageSize.h, layout, page, calibration);
+      if (si !== null) onSystemSelect(si);
+      return;
+    }
+    if (isInserting) {
+      const point = scorePointAt(px, py, pageSize.w, pageSize.h, layout, page, calibration);
+      if (point) onInsertAt(point);
       return;
     }
 
-    const hit = findNoteAt(notes, px, py, canvas.clientWidth, canvas.clientHeight, layout, calibration);
-    if (hit) onNoteClick(hit);
+    const hit = findNoteAt(notes, px, py, pageSize.w, pageSize.h, layout, page, calibration, HIT_RADIUS / view.zoom);
+    if (hit && e.shiftKey) onNoteToggle(hit);
+    else if (hit) onNoteClick(hit);
   };
 
-  const cursorClass = isCalibrating
+  const cursorClass = isCalibrating || isPickingSystem || isInserting
     ? 'cursor-crosshair'
-    : hovered
-      ? 'cursor-pointer'
-      : 'cursor-crosshair';
+    : isDraggingNote
+      ? 'cursor-ns-resize'
+      : hovered
+        ? 'cursor-pointer'
+        : view.zoom > MIN_ZOOM
+          ? 'cursor-grab active:cursor-grabbing'
+          : 'cursor-crosshair';
+
+  /** The zoomed page: `zoom` times the viewport width, shifted by the pan. */
+  const stageStyle: React.CSSProperties = {
+    width: `${view.zoom * 100}%`,
+    transform: `translate(${view.panX}px, ${view.panY}px)`,
+  };
 
   return (
     <div className="flex flex-col gap-3">
+      {imageUrl && (
+        <div className="flex items-center gap-3">
+          {pageImages.length > 1 && (
+            <div className="flex-1">
+              <PageSwitcher page={page} numPages={pageImages.length} onChange={setPage} />
+            </div>
+          )}
+          <button
+            onClick={onToggleInsert}
+            title="Click on a staff to add a note the OMR engine missed"
+            className={`rounded-lg border px-2.5 py-1 text-xs transition-colors ${
+              isInserting
+                ? 'bg-blue-700 border-blue-500 text-white'
+                : 'bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700'
+            }`}
+          >
+            {isInserting ? 'Done adding' : '+ Add note'}
+          </button>
+          <ZoomControls
+            zoom={view.zoom}
+            onZoomIn={() => zoomBy(ZOOM_STEP)}
+            onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+            onFit={() => setView(FIT_VIEW)}
+          />
+        </div>
+      )}
       <div
         ref={containerRef}
-        className="relative rounded-xl overflow-hidden border border-slate-600 bg-slate-900
-                   min-h-[300px] flex items-center justify-center"
+        className={`relative rounded-xl overflow-hidden border border-slate-600 bg-slate-900 min-h-[300px]
+                    ${imageUrl ? '' : 'flex items-center justify-center'}`}
+        style={imageUrl && pageSize.h > 0 ? { height: pageSize.h } : undefined}
       >
         {imageUrl ? (
           <>
-            <img
-              ref={imgRef}
-              src={imageUrl}
-              alt="Score"
-              className="block w-full h-auto select-none"
-              draggable={false}
-            />
+            <div className="absolute top-0 left-0" style={stageStyle}>
+              <img
+                ref={imgRef}
+                src={imageUrl}
+                alt="Score"
+                className="block w-full h-auto select-none"
+                draggable={false}
+              />
+            </div>
             <canvas
               ref={canvasRef}
-              className={`absolute inset-0 ${cursorClass}`}
+              className={`absolute inset-0 touch-none ${cursorClass}`}
               style={{ pointerEvents: 'all' }}
-              onMouseMove={onMouseMove}
+              onPointerDown={onPointerDown}
+              onPointerMove={onPointerMove}
+              onPointerUp={onPointerUp}
+              onPointerCancel={onPointerUp}
               onMouseLeave={onMouseLeave}
               onClick={onClick}
             />
+            {band && (
+              <div
+                className="absolute border border-amber-400 bg-amber-400/10 pointer-events-none"
+                style={{
+                  left: Math.min(band.x0, band.x1) * view.zoom + view.panX,
+                  top: Math.min(band.y0, band.y1) * view.zoom + view.panY,
+                  width: Math.abs(band.x1 - band.x0) * view.zoom,
+                  height: Math.abs(band.y1 - band.y0) * view.zoom,
+                }}
+              />
+            )}
+            {isEditingCorners && calibration.perspective && (
+              <div className="absolute top-0 left-0 pointer-events-none" style={{ ...stageStyle, height: pageSize.h * view.zoom }}>
+                <CornerHandles
+                  quad={calibration.perspective}
+                  width={pageSize.w * view.zoom}
+                  height={pageSize.h * view.zoom}
+                  onChange={(perspective) => onCalibrationChange({ ...calibration, perspective })}
+                />
+              </div>
+            )}
             {isCalibrating && (
               <div className="absolute top-3 left-3 right-3 bg-amber-950/80 border border-amber-700
                               rounded-lg px-3 py-2 text-xs text-amber-300 text-center pointer-events-none">
                 Click where the score content begins (top-left corner)
               </div>
             )}
+            {isPickingSystem && (
+              <div className="absolute top-3 left-3 right-3 bg-amber-950/80 border border-amber-700
+                              rounded-lg px-3 py-2 text-xs text-amber-300 text-center pointer-events-none">
+                Click a system to adjust its alignment
+              </div>
+            )}
+            {isInserting && (
+              <div className="absolute top-3 left-3 right-3 bg-blue-950/80 border border-blue-700
+                              rounded-lg px-3 py-2 text-xs text-blue-300 text-center pointer-events-none">
+                Click on a staff to add a note there · on a note head to add to its chord
+              </div>
+            )}
+            {view.zoom > MIN_ZOOM && pageSize.w > 0 && (
+              <Minimap
+                imageUrl={imageUrl}
+                view={view}
+                pageW={pageSize.w}
+                pageH={pageSize.h}
+                onCentre={(x, y) => setView(v => centreOn(v, x, y, pageSize.w, pageSize.h))}
+              />
+            )}
           </>
         ) : (
           <Placeholder />
@@ -160,6 +586,114 @@ export default function ScoreViewer({
   );
 }
 
+/** Four draggable dots on the perspective quad's corners, in canvas pixels. */
+function CornerHandles({
+  quad,
+  width,
+  height,
+  onChange,
+}: {
+  quad: Quad;
+  width: number;
+  height: number;
+  onChange: (quad: Quad) => void;
+}) {
+  const layerRef = useRef<HTMLDivElement>(null);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (corner: number) => (e: React.PointerEvent<HTMLDivElement>) => {
+    const layer = layerRef.current;
+    if (!layer || !e.currentTarget.hasPointerCapture(e.pointerId) || width === 0 || height === 0) return;
+    const rect = layer.getBoundingClientRect();
+    const next = [...quad] as Quad;
+    next[corner] = { x: (e.clientX - rect.left) / width, y: (e.clientY - rect.top) / height };
+    onChange(next);
+  };
+
+  return (
+    <div ref={layerRef} className="absolute inset-0 pointer-events-none">
+      <svg className="absolute inset-0 w-full h-full">
+        <polygon
+          points={quad.map(p => `${p.x * width},${p.y * height}`).join(' ')}
+          fill="none"
+          stroke="rgb(96 165 250)"
+          strokeWidth={1}
+          strokeDasharray="4 3"
+        />
+      </svg>
+      {quad.map((p, i) => (
+        <div
+          key={i}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove(i)}
+          className="absolute h-4 w-4 -ml-2 -mt-2 rounded-full bg-blue-500 border-2 border-white shadow
+                     cursor-move pointer-events-auto touch-none"
+          style={{ left: p.x * width, top: p.y * height }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ZoomControls({
+  zoom,
+  onZoomIn,
+  onZoomOut,
+  onFit,
+}: {
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFit: () => void;
+}) {
+  const btn = 'rounded-lg bg-slate-800 border border-slate-600 px-2.5 py-1 text-xs text-slate-200 ' +
+    'hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 transition-colors';
+  return (
+    <div className="ml-auto flex items-center gap-1.5" title="Ctrl/⌘ + scroll or pinch to zoom; drag to pan">
+      <button className={btn} disabled={zoom <= MIN_ZOOM} onClick={onZoomOut}>−</button>
+      <span className="w-11 text-center text-[11px] text-slate-400 tabular-nums">{Math.round(zoom * 100)}%</span>
+      <button className={btn} disabled={zoom >= MAX_ZOOM} onClick={onZoomIn}>+</button>
+      <button className={btn} disabled={zoom === MIN_ZOOM} onClick={onFit}>Fit</button>
+    </div>
+  );
+}
+
+function PageSwitcher({
+  page,
+  numPages,
+  onChange,
+}: {
+  page: number;
+  numPages: number;
+  onChange: (page: number) => void;
+}) {
+  const btn = 'rounded-lg bg-slate-800 border border-slate-600 px-2.5 py-1 text-xs text-slate-200 ' +
+    'hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 transition-colors';
+  return (
+    <div className="flex items-center gap-1.5">
+      <button className={btn} disabled={page === 0} onClick={() => onChange(page - 1)}>‹ Prev</button>
+      {Array.from({ length: numPages }, (_, i) => (
+        <button
+          key={i}
+          onClick={() => onChange(i)}
+          className={`rounded-lg px-2.5 py-1 text-xs tabular-nums border transition-colors ${
+            i === page
+              ? 'bg-blue-700 border-blue-500 text-white'
+              : 'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700'
+          }`}
+        >
+          {i + 1}
+        </button>
+      ))}
+      <button className={btn} disabled={page === numPages - 1} onClick={() => onChange(page + 1)}>Next ›</button>
+      <span className="ml-auto text-[11px] text-slate-500">Page {page + 1} of {numPages}</span>
+    </div>
+  );
+}
+
 function Placeholder() {
   return (
     <div className="flex flex-col items-center gap-4 py-16 px-8 text-center">
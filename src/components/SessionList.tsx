@@ -0,0 +1,85 @@
+import React, { useRef } from 'react';
+import { BUNDLE_EXTENSION, type SessionSummary } from '../utils/sessions';
+
+interface Props {
+  /** Most recently updated first. */
+  sessions: SessionSummary[];
+  /** The session on screen, saved as it is edited. */
+  currentId: string | null;
+  /** Shown instead of the list when the browser will not store sessions. */
+  error: string | null;
+  onOpen: (id: string) => void;
+  onExport: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+export default function SessionList({ sessions, currentId, error, onOpen, onExport, onDelete, onImport }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    // reset so the same file can be imported again
+    e.target.value = '';
+  };
+
+  const iconBtn = 'rounded px-1.5 py-0.5 text-slate-400 hover:bg-slate-700 hover:text-slate-200 transition-colors';
+
+  return (
+    <div className="rounded-xl bg-slate-800/70 border border-slate-700 p-4 flex flex-col gap-2 text-xs">
+      {error ? (
+        <p className="text-amber-300">{error}</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-slate-500">No saved sessions yet. Work is saved here as you review.</p>
+      ) : (
+        <ul className="max-h-56 overflow-y-auto flex flex-col gap-1">
+          {sessions.map(s => (
+            <li
+              key={s.id}
+              className={`flex items-center gap-1 rounded-lg px-2 py-1.5
+                ${s.id === currentId ? 'bg-blue-900/60' : 'hover:bg-slate-700/50'}`}
+            >
+              <button
+                className="flex-1 min-w-0 text-left disabled:cursor-default"
+                disabled={s.id === currentId}
+                onClick={() => onOpen(s.id)}
+                title={s.id === currentId ? 'Open now' : 'Reopen this session'}
+              >
+                <span className="block truncate text-slate-200">{s.name}</span>
+                <span className="block text-[10px] text-slate-500 tabular-nums">
+                  {s.reviewedCount}/{s.noteCount} reviewed
+                  {s.pages > 0 && ` · ${s.pages} ${s.pages === 1 ? 'page' : 'pages'}`} · {formatDate(s.updated)}
+                </span>
+              </button>
+              <button className={iconBtn} onClick={() => onExport(s.id)} title="Download as a session file">⤓</button>
+              <button
+                className={iconBtn}
+                onClick={() => window.confirm(`Delete the saved session “${s.name}”?`) && onDelete(s.id)}
+                title="Delete"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        className="rounded-lg bg-slate-700 border border-slate-600 px-2 py-1 text-slate-200 hover:bg-slate-600
+                   transition-colors"
+        onClick={() => fileRef.current?.click()}
+      >
+        Import session file…
+      </button>
+      <input ref={fileRef} type="file" accept={`${BUNDLE_EXTENSION},application/json`} className="hidden" onChange={onFileChange} />
+    </div>
+  );
+}
+
+function formatDate(time: number): string {
+  const date = new Date(time);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { day: 'numeric', month: 'short' });
+}
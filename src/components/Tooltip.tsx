@@ -1,5 +1,5 @@
 import React from 'react';
-import type { NoteData } from '../types';
+import type { ConfidenceDetail, NoteData } from '../types';
 
 const STEP_LABEL: Record<string, string> = {
   C: 'C', D: 'D', E: 'E', F: 'F', G: 'G', A: 'A', B: 'B',
@@ -13,6 +13,10 @@ function accidentalSymbol(alter: number): string {
   return '';
 }
 
+const DETAIL_LABELS: [keyof ConfidenceDetail, string][] = [
+  ['pitch', 'Pitch'], ['duration', 'Duration'], ['accidental', 'Accidental'],
+];
+
 interface Props {
   note: NoteData;
   x: number;
@@ -21,7 +25,10 @@ interface Props {
 }
 
 export default function Tooltip({ note, x, y, threshold }: Props) {
-  const noteName = `${STEP_LABEL[note.step]}${accidentalSymbol(note.alter)}${note.octave}`;
+  const noteName = note.isRest
+    ? 'Rest'
+    : `${STEP_LABEL[note.step]}${accidentalSymbol(note.alter)}${note.octave}`;
+  const durationLabel = `${note.dots === 2 ? 'double-dotted ' : note.dots === 1 ? 'dotted ' : ''}${note.noteType}`;
   const pct = (note.confidence * 100).toFixed(1);
   const isAboveMid = y > window.innerHeight / 2;
   const isAbove = note.confidence >= threshold;
@@ -42,13 +49,21 @@ export default function Tooltip({ note, x, y, threshold }: Props) {
         <span className="font-bold text-base" style={{ color: noteColor }}>
           {noteName}
         </span>
-        <span className="text-slate-400 text-[10px] capitalize">{note.noteType}</span>
+        <span className="text-slate-400 text-[10px] capitalize">{durationLabel}</span>
         <span
           className="ml-auto text-[10px] font-semibold px-1.5 py-0.5 rounded"
           style={{ background: isAbove ? '#1e3a8a' : '#7f1d1d', color: textColor }}
         >
           {isAbove ? 'OK' : 'LOW'}
         </span>
+        {note.confidenceSource === 'mock' && (
+          <span
+            className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-slate-700 text-slate-300"
+            title="The OMR engine gave no confidence for this note; this is a placeholder"
+          >
+            MOCK
+          </span>
+        )}
       </div>
 
       <div className="flex items-center gap-2">
@@ -63,8 +78,23 @@ export default function Tooltip({ note, x, y, threshold }: Props) {
         </span>
       </div>
 
+      {note.confidenceDetail && (
+        <div className="mt-1 flex gap-2 text-[10px] text-slate-400 tabular-nums">
+          {DETAIL_LABELS.map(([key, label]) => {
+            const v = note.confidenceDetail?.[key];
+            return v != null && (
+              <span key={key} style={{ color: v < threshold ? '#fca5a5' : undefined }}>
+                {label} {(v * 100).toFixed(0)}%
+              </span>
+            );
+          })}
+        </div>
+      )}
+
       <div className="mt-1.5 text-slate-500 text-[10px]">
-        Part {note.partIndex + 1} · Measure {note.measureNum}
+        Part {note.partIndex + 1} · Measure {note.measureNum} · Voice {note.voice}
+        {note.isChord && ' · Chord'}
+        {(note.tieStart || note.tieStop) && ' · Tied'}
       </div>
     </div>
   );
@@ -1,7 +1,10 @@
 import React, { useCallback, useState } from 'react';
+import { isScoreFile } from '../utils/musicXmlLoader';
+import { isPdfFile } from '../utils/pdfPages';
 
 interface Props {
-  onUpload: (file: File) => void;
+  /** Page images or PDFs in page order, or a single MusicXML file. */
+  onUpload: (files: File[]) => void;
   hasImage: boolean;
 }
 
@@ -9,8 +12,18 @@ export default function UploadArea({ onUpload, hasImage }: Props) {
   const [dragging, setDragging] = useState(false);
 
   const handle = useCallback(
-    (file: File | undefined) => {
-      if (file && file.type.startsWith('image/')) onUpload(file);
+    (list: FileList | null | undefined) => {
+      const files = Array.from(list ?? []);
+      const score = files.find(isScoreFile);
+      if (score) {
+        onUpload([score]);
+        return;
+      }
+      // Pages in file-name order ("page2" before "page10")
+      const pages = files
+        .filter(f => f.type.startsWith('image/') || isPdfFile(f))
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+      if (pages.length > 0) onUpload(pages);
     },
     [onUpload],
   );
@@ -18,7 +31,7 @@ export default function UploadArea({ onUpload, hasImage }: Props) {
   const onDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setDragging(false);
-    handle(e.dataTransfer.files[0]);
+    handle(e.dataTransfer.files);
   };
 
   const onDragOver = (e: React.DragEvent) => {
@@ -29,7 +42,7 @@ export default function UploadArea({ onUpload, hasImage }: Props) {
   const onDragLeave = () => setDragging(false);
 
   const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    handle(e.target.files?.[0]);
+    handle(e.target.files);
     // reset so same file can be re-uploaded
     e.target.value = '';
   };
@@ -54,7 +67,8 @@ export default function UploadArea({ onUpload, hasImage }: Props) {
       <input
         id="omr-file-input"
         type="file"
-        accept="image/*"
+        accept="image/*,.pdf,.musicxml,.xml,.mxl"
+        multiple
         className="hidden"
         onChange={onFileChange}
       />
@@ -80,13 +94,16 @@ export default function UploadArea({ onUpload, hasImage }: Props) {
       <div className="text-center">
         <p className="text-sm font-medium text-slate-200">
           {dragging
-            ? 'Drop image here'
+            ? 'Drop files here'
             : hasImage
-              ? 'Replace score image'
-              : 'Upload score image'}
+              ? 'Replace score pages'
+              : 'Upload score pages'}
         </p>
         <p className="mt-1 text-xs text-slate-400">
-          Click or drag &amp; drop · PNG, JPG, TIFF, etc.
+          Click or drag &amp; drop · one image per page, or a PDF
+        </p>
+        <p className="mt-0.5 text-[11px] text-slate-500">
+          or a MusicXML file (.musicxml, .xml, .mxl)
         </p>
       </div>
     </div>
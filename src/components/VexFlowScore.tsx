@@ -1,6 +1,10 @@
-import React, { useEffect, useRef, useCallback } from 'react';
-import { Renderer, Stave, StaveNote, Voice, Formatter, Accidental, Beam, Stem } from 'vexflow';
-import type { NoteData, NoteCorrection, PartInfo, ScoreLayout } from '../types';
+import React, { useEffect, useRef, useCallback, useState } from 'react';
+import {
+  Renderer, Stave, StaveConnector, StaveNote, StaveTie, Voice, Formatter, Accidental, Beam, Dot, Stem, ClefNote, type Note,
+} from 'vexflow';
+import type { NoteData, NoteCorrection, NoteHighlight, PartInfo, ScoreLayout, ClefInfo, TimeInfo, MeasureFocus } from '../types';
+import { attributesAt } from '../utils/scoreParser';
+import { yOffsetToPitch } from '../utils/clef';
 
 // ─── Duration → VexFlow duration string ────────────────────────────────────
 const DUR: Record<string, string> = {
@@ -21,10 +25,14 @@ const ACC: Record<number, string> = {
 };
 
 // ─── Layout constants ──────────────────────────────────────────────────────
-const STAVE_SPACING = 90;   // px between stave tops within a system
+const STAVE_SPACING = 90;   // px between stave tops within a system (also between staves of a part)
 const SYSTEM_GAP = 50;      // extra gap between systems
 const MARGIN_X = 12;
 const MARGIN_Y = 20;
+const HEADER_W = 50;        // clef at the start of each system
+const KEY_ACC_W = 10;       // per key-signature accidental
+const CHANGE_W = 35;        // mid-system clef or time signature change
+const HIT_RADIUS = 12;      // px from a note head that still counts as on it
 
 interface Props {
   notes: NoteData[];
@@ -32,10 +40,43 @@ interface Props {
   layout: ScoreLayout;
   threshold: number;
   corrections: Map<string, NoteCorrection>;
+  focus: MeasureFocus | null;
+  /** Note under the pointer in either view, and the selected note. */
+  hover: NoteHighlight | null;
+  selection: NoteHighlight | null;
+  onNoteHover: (id: string | null) => void;
+  onNoteClick: (note: NoteData) => void;
 }
 
-export default function VexFlowScore({ notes, parts, layout, threshold, corrections }: Props) {
+/** A rendered note (or chord) and which of its keys each source note became. */
+interface Rendered {
+  sn: StaveNote;
+  keyIndex: number;
+  sysIdx: number;
+}
+
+interface Box { x: number; y: number; w: number; h: number }
+
+export default function VexFlowScore({
+  notes,
+  parts,
+  layout,
+  threshold,
+  corrections,
+  focus,
+  hover,
+  selection,
+  onNoteHover,
+  onNoteClick,
+}: Props) {
+  const scrollRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Rendered area of each measure (all its staves), for jumping to a bar
+  const measureBoxes = useRef(new Map<number, Box>());
+  // Centre of each rendered note head by note id, for hit-testing and highlights
+  const heads = useRef(new Map<string, { x: number; y: number }>());
+  // Bumped after each render so highlights follow the new head positions
+  const [, setRenderCount] = useState(0);
 
   const render = useCallback(() => {
     const el = containerRef.current;
@@ -45,122 +86,339 @@ export default function VexFlowScore({ notes, parts, layout, threshold, correcti
 
     const numParts = parts.length;
     const numSystems = layout.systems.length;
+    // One stave row per staff: a piano part contributes two rows
+    const rows = parts.flatMap((p, partIdx) =>
+      Array.from({ length: p.staves }, (_, staff) => ({ partIdx, staff })),
+    );
+    // Staves hidden in a system (optimised empty staves) are left out of it
+    const systemRows = layout.systems.map(sys => rows.filter(r => !sys.hiddenStaves[r.partIdx]?.[r.staff]));
     const width = el.clientWidth || 700;
-    const systemH = numParts * STAVE_SPACING;
-    const totalH = MARGIN_Y + numSystems * systemH + (numSystems - 1) * SYSTEM_GAP + 40;
+    const totalH = MARGIN_Y
+      + systemRows.reduce((h, r) => h + r.length * STAVE_SPACING, 0)
+      + (numSystems - 1) * SYSTEM_GAP + 40;
     const staveW = width - MARGIN_X * 2;
 
     const renderer = new Renderer(el, Renderer.Backends.SVG);
     renderer.resize(width, totalH);
     const ctx = renderer.getContext();
 
-    const keyFifths = parts[0]?.key.fifths ?? 0;
-    const keySpec = KEY_MAP[keyFifths] ?? 'C';
+    // Clef/key/time in force in each part at the start of each measure (or at x within it)
+    const attrsAt = (partIdx: number, mi: number, x?: number) => attributesAt(parts[partIdx], mi, x);
+    const startChange = (partIdx: number, mi: number) =>
+      parts[partIdx].changes.find(c => c.measureIndex === mi && c.x === undefined);
+    const laterChanges = (partIdx: number, mi: number) =>
+      parts[partIdx].changes.filter(c => c.measureIndex === mi && c.x !== undefined);
+
+    // Notes grouped by part, staff and measure, in source order
+    const byMeasure = new Map<string, NoteData[]>();
+    for (const n of notes) {
+      const key = `${n.partIndex}:${n.staff}:${n.measureIndex}`;
+      if (!byMeasure.has(key)) byMeasure.set(key, []);
+      byMeasure.get(key)!.push(n);
+    }
+    const measureNotes = (partIdx: number, staff: number, mi: number) =>
+      byMeasure.get(`${partIdx}:${staff}:${mi}`) ?? [];
 
-    const clefNames = parts.map(p => {
-      if (p.clef.sign === 'F') return 'bass';
-      return 'treble';
-    });
+    measureBoxes.current.clear();
 
-    const clefAnnotations = parts.map(p => {
-      if (p.clef.octaveChange === -1) return '8vb';
-      if (p.clef.octaveChange === 1) return '8va';
-      return undefined;
-    });
+    // Use the source's beaming when it has any, else let VexFlow group eighths
+    const hasSourceBeams = notes.some(n => n.beams.length > 0);
+    const rendered = new Map<string, Rendered>();
 
+    let sysY = MARGIN_Y;
     for (let sysIdx = 0; sysIdx < numSystems; sysIdx++) {
       const sys = layout.systems[sysIdx];
-      const sysY = MARGIN_Y + sysIdx * (systemH + SYSTEM_GAP);
       const [measStart, measEnd] = sys.measureRange;
 
-      for (let partIdx = 0; partIdx < numParts; partIdx++) {
-        const staveY = sysY + partIdx * STAVE_SPACING;
-
-        const stave = new Stave(MARGIN_X, staveY, staveW);
-        stave.addClef(clefNames[partIdx], undefined, clefAnnotations[partIdx]);
-        stave.addKeySignature(keySpec);
-        stave.setContext(ctx).draw();
-
-        const partNotes = notes.filter(n =>
-          n.partIndex === partIdx &&
-          n.measureIndex >= measStart &&
-          n.measureIndex < measEnd &&
-          !n.isRest
-        );
-
-        if (partNotes.length === 0) continue;
-
-        const vfNotes: StaveNote[] = [];
-        for (const n of partNotes) {
-          const corr = corrections.get(n.id);
-          const step = (corr?.step ?? n.step).toLowerCase();
-          const alter = corr?.alter ?? n.alter;
-          const octave = corr?.octave ?? n.octave;
-          const noteType = corr?.noteType ?? n.noteType;
-          const status = corr?.status ?? n.status;
-
-          const displayOctave = (partIdx < numParts - 1 && parts[partIdx]?.clef.octaveChange === -1)
-            ? octave + 1
-            : (parts[partIdx]?.clef.sign === 'F' ? octave : (parts[partIdx]?.clef.octaveChange === -1 ? octave + 1 : octave));
-
-          const dur = DUR[noteType] ?? 'q';
-          const stemDir = n.stemDir === 'up' ? Stem.UP : Stem.DOWN;
-
-          const sn = new StaveNote({
-            keys: [`${step}/${displayOctave}`],
-            duration: dur,
-            stemDirection: stemDir,
-            clef: clefNames[partIdx],
+      // Measure widths proportional to the busiest part in each measure, plus
+      // fixed room for the system header and any mid-system changes
+      const weights: number[] = [];
+      const fixedW: number[] = [];
+      for (let mi = measStart; mi < measEnd; mi++) {
+        let onsets = 1;
+        let fixed = 0;
+        for (let p = 0; p < numParts; p++) {
+          for (let staff = 0; staff < parts[p].staves; staff++) {
+            onsets = Math.max(onsets, measureNotes(p, staff, mi).filter(n => !n.isChord).length);
+          }
+          const a = attrsAt(p, mi);
+          const ch = startChange(p, mi);
+          let w = 0;
+          if (mi === measStart) w += HEADER_W + Math.abs(a.key.fifths) * KEY_ACC_W;
+          else if (ch?.key) w += (Math.abs(ch.key.fifths) + 1) * KEY_ACC_W;
+          if (mi !== measStart && ch?.clefs) w += CHANGE_W;
+          if (showTime(mi, ch?.time, a.time)) w += CHANGE_W;
+          w += laterChanges(p, mi).filter(c => c.clefs).length * CHANGE_W;
+          fixed = Math.max(fixed, w);
+        }
+        weights.push(onsets + 1);
+        fixedW.push(fixed);
+      }
+      const totalWeight = weights.reduce((a, b) => a + b, 0) || 1;
+      const flexW = staveW - fixedW.reduce((a, b) => a + b, 0);
+
+      const firstStaves: Stave[] = [];
+      systemRows[sysIdx].forEach(({ partIdx, staff }, rowIdx) => {
+        const staveY = sysY + rowIdx * STAVE_SPACING;
+        let x = MARGIN_X;
+
+        for (let mi = measStart; mi < measEnd; mi++) {
+          const first = mi === measStart;
+          const w = (flexW * weights[mi - measStart]) / totalWeight + fixedW[mi - measStart];
+          const attrs = attrsAt(partIdx, mi);
+          const clef = attrs.clefs[staff];
+          const change = startChange(partIdx, mi);
+          // As the previous measure ended, after any change part-way through it
+          const prevAttrs = first ? undefined : attrsAt(partIdx, mi - 1, Infinity);
+          const prevClef = prevAttrs?.clefs[staff];
+
+          const stave = new Stave(x, staveY, w);
+          if (first || (change?.clefs && !sameClef(clef, prevClef!))) {
+            stave.addClef(vexClef(clef), first ? undefined : 'small', clefAnnotation(clef));
+          }
+          if (first) {
+            stave.addKeySignature(KEY_MAP[attrs.key.fifths] ?? 'C');
+          } else if (change?.key) {
+            const prev = prevAttrs!.key;
+            stave.addKeySignature(KEY_MAP[attrs.key.fifths] ?? 'C', KEY_MAP[prev.fifths] ?? 'C');
+          }
+          if (showTime(mi, change?.time, attrs.time)) {
+            stave.addTimeSignature(`${attrs.time.beats}/${attrs.time.beatType}`);
+          }
+          stave.setContext(ctx).draw();
+          if (first) firstStaves.push(stave);
+          const box = measureBoxes.current.get(mi);
+          if (box) box.h = staveY + STAVE_SPACING - box.y;
+          else measureBoxes.current.set(mi, { x, y: staveY, w, h: STAVE_SPACING });
+          x += w;
+
+          const mNotes = measureNotes(partIdx, staff, mi);
+          if (mNotes.length === 0) continue;
+
+          // Clef changes part-way through the measure on this staff, drawn in the first voice
+          let clefBefore = clef;
+          const clefChanges = laterChanges(partIdx, mi).flatMap(ch => {
+            const next = ch.clefs?.[staff];
+            if (!next || sameClef(next, clefBefore)) return [];
+            clefBefore = next;
+            return [{ x: ch.x!, clef: next, placed: false }];
           });
 
-          if (alter !== 0 && ACC[alter]) {
-            sn.addModifier(new Accidental(ACC[alter]));
+          const clefNote = (c: { clef: ClefInfo }) => new ClefNote(vexClef(c.clef), 'small', clefAnnotation(c.clef));
+
+          // One VexFlow voice per MusicXML voice
+          const voiceNums = [...new Set(mNotes.map(n => n.voice))];
+          const voices: Voice[] = [];
+          const beams: Beam[] = [];
+
+          for (const [vi, vNum] of voiceNums.entries()) {
+            const vfNotes: StaveNote[] = [];
+            const tickables: Note[] = [];
+            const beamGroups: StaveNote[][] = [];
+            let openBeam: StaveNote[] | null = null;
+
+            for (const group of chordGroups(mNotes.filter(n => n.voice === vNum))) {
+              if (vi === 0) {
+                for (const c of clefChanges) {
+                  if (c.placed || c.x > group[0].absX) continue;
+                  tickables.push(clefNote(c));
+                  c.placed = true;
+                }
+              }
+              const sn = buildStaveNote(group, attrsAt(partIdx, mi, group[0].absX).clefs[staff]);
+              group.forEach((n, keyIndex) => rendered.set(n.id, { sn, keyIndex, sysIdx }));
+              vfNotes.push(sn);
+              tickables.push(sn);
+
+              const beam = group[0].beams[0];
+              if (beam === 'begin') openBeam = [sn];
+              else if (openBeam && (beam === 'continue' || beam === 'end')) openBeam.push(sn);
+              if (openBeam && beam === 'end') {
+                if (openBeam.length > 1) beamGroups.push(openBeam);
+                openBeam = null;
+              }
+            }
+
+            // Changes after the voice's last note close the measure
+            if (vi === 0) for (const c of clefChanges) if (!c.placed) tickables.push(clefNote(c));
+
+            const voice = new Voice({ numBeats: attrs.time.beats ?? 4, beatValue: attrs.time.beatType ?? 4 });
+            voice.setMode(Voice.Mode.SOFT);
+            voice.addTickables(tickables);
+            voices.push(voice);
+
+            try {
+              if (hasSourceBeams) {
+                for (const g of beamGroups) beams.push(new Beam(g));
+              } else {
+                beams.push(...Beam.generateBeams(vfNotes.filter(n => !n.isRest())));
+              }
+            } catch {
+              // skip
+            }
           }
 
-          let color: string;
-          if (status === 'verified' || status === 'corrected') {
-            color = '#16a34a';
-          } else if (n.confidence >= threshold) {
-            color = '#2563eb';
-          } else {
-            color = '#dc2626';
+          try {
+            const noteStartX = stave.getNoteStartX();
+            const noteEndX = stave.getNoteEndX();
+            new Formatter().joinVoices(voices).format(voices, Math.max(20, noteEndX - noteStartX - 10));
+            voices.forEach(v => v.draw(ctx, stave));
+            beams.forEach(b => b.setContext(ctx).draw());
+          } catch (e) {
+            console.warn(`VexFlow render error (sys ${sysIdx} part ${partIdx} staff ${staff} measure ${mi}):`, e);
           }
-          sn.setStyle({ fillStyle: color, strokeStyle: color });
-          sn.setStemStyle({ fillStyle: color, strokeStyle: color });
-
-          vfNotes.push(sn);
         }
+      });
+
+      // System barline on the left, and a brace around each multi-staff part
+      if (firstStaves.length > 1) {
+        connect(ctx, firstStaves[0], firstStaves[firstStaves.length - 1], 'singleLeft');
+      }
+      let row = 0;
+      for (let p = 0; p < numParts; p++) {
+        const shown = systemRows[sysIdx].filter(r => r.partIdx === p).length;
+        if (shown > 1) connect(ctx, firstStaves[row], firstStaves[row + shown - 1], 'brace');
+        row += shown;
+      }
 
-        if (vfNotes.length === 0) continue;
+      sysY += systemRows[sysIdx].length * STAVE_SPACING + SYSTEM_GAP;
+    }
 
-        let beams: Beam[] = [];
-        try {
-          beams = Beam.generateBeams(vfNotes);
-        } catch {
-          // skip
-        }
+    // ── Ties: pair each tie start with the next same-pitch tie stop in its part/voice
+    const pending = new Map<string, NoteData>();
+    for (const n of notes) {
+      if (n.isRest) continue;
+      const key = `${n.partIndex}:${n.voice}:${n.step}${n.alter}${n.octave}`;
+      const start = pending.get(key);
+      if (n.tieStop && start) {
+        drawTie(ctx, rendered.get(start.id), rendered.get(n.id));
+        pending.delete(key);
+      }
+      if (n.tieStart) pending.set(key, n);
+    }
+    // Ties that run off the end of the score
+    pending.forEach(n => drawTie(ctx, rendered.get(n.id), undefined));
+
+    heads.current.clear();
+    rendered.forEach(({ sn, keyIndex }, id) => {
+      try {
+        const x = (sn.getNoteHeadBeginX() + sn.getNoteHeadEndX()) / 2;
+        const y = sn.getYs()[keyIndex];
+        if (Number.isFinite(x) && Number.isFinite(y)) heads.current.set(id, { x, y });
+      } catch {
+        // not formatted (its measure failed to render)
+      }
+    });
+    setRenderCount(c => c + 1);
+
+    const focusBox = focus && measureBoxes.current.get(focus.measureIndex);
+    if (focusBox) {
+      ctx.save();
+      ctx.setFillStyle('rgba(250, 204, 21, 0.2)');
+      ctx.fillRect(focusBox.x, focusBox.y, focusBox.w, focusBox.h);
+      ctx.restore();
+    }
 
-        const voice = new Voice({ numBeats: 4, beatValue: 4 });
-        voice.setMode(Voice.Mode.SOFT);
-        voice.addTickables(vfNotes);
-
-        try {
-          const noteStartX = stave.getNoteStartX();
-          const noteEndX = stave.getNoteEndX();
-          new Formatter().joinVoices([voice]).format([voice], noteEndX - noteStartX - 10);
-          voice.draw(ctx, stave);
-          beams.forEach(b => b.setContext(ctx).draw());
-        } catch (e) {
-          console.warn(`VexFlow render error (sys ${sysIdx} part ${partIdx}):`, e);
+    function buildStaveNote(group: NoteData[], clef: ClefInfo): StaveNote {
+      const head = group[0];
+      const corr = corrections.get(head.id);
+      const noteType = corr?.noteType ?? head.noteType;
+      const dots = corr?.dots ?? head.dots;
+      // VexFlow places keys by written pitch; octave clefs only add the 8va/8vb mark
+      const octaveShift = -clef.octaveChange;
+      const clefName = vexClef(clef);
+
+      const keys = head.isRest
+        ? [restKey(clef)]
+        : group.map(n => {
+            const c = corrections.get(n.id);
+            return `${(c?.step ?? n.step).toLowerCase()}/${(c?.octave ?? n.octave) + octaveShift}`;
+          });
+
+      const sn = new StaveNote({
+        keys,
+        duration: (DUR[noteType] ?? 'q') + (head.isRest ? 'r' : ''),
+        dots,
+        stemDirection: head.stemDir === 'up' ? Stem.UP : Stem.DOWN,
+        clef: clefName === 'tab' ? 'treble' : clefName, // no note placement for TAB
+      });
+
+      group.forEach((n, i) => {
+        const c = corrections.get(n.id);
+        const alter = c?.alter ?? n.alter;
+        if (!n.isRest && alter !== 0 && ACC[alter]) sn.addModifier(new Accidental(ACC[alter]), i);
+
+        const status = c?.status ?? n.status;
+        const color = status === 'verified' || status === 'corrected'
+          ? '#16a34a'
+          : n.confidence >= threshold
+            ? '#2563eb'
+            : '#dc2626';
+        if (i === 0) {
+          sn.setStyle({ fillStyle: color, strokeStyle: color });
+          sn.setStemStyle({ fillStyle: color, strokeStyle: color });
+        } else {
+          sn.setKeyStyle(i, { fillStyle: color, strokeStyle: color });
         }
-      }
+      });
+
+      for (let d = 0; d < dots; d++) Dot.buildAndAttach([sn], { all: true });
+      return sn;
     }
-  }, [notes, parts, layout, threshold, corrections]);
+  }, [notes, parts, layout, threshold, corrections, focus]);
 
   useEffect(() => {
     render();
   }, [render]);
 
+  useEffect(() => {
+    const el = scrollRef.current;
+    const box = focus && measureBoxes.current.get(focus.measureIndex);
+    if (el && box) el.scrollTo({ top: Math.max(0, box.y - MARGIN_Y), behavior: 'smooth' });
+  }, [focus]);
+
+  // Scroll notes picked out elsewhere into view
+  useEffect(() => {
+    const el = scrollRef.current;
+    const mark = selection && selection.source !== 'score' ? selection : hover?.source === 'overlay' ? hover : null;
+    const p = mark && heads.current.get(mark.id);
+    if (!el || !p) return;
+    if (p.y < el.scrollTop + HIT_RADIUS || p.y > el.scrollTop + el.clientHeight - HIT_RADIUS) {
+      el.scrollTo({ top: Math.max(0, p.y - el.clientHeight / 2), behavior: 'smooth' });
+    }
+  }, [hover, selection]);
+
+  // ── Pointer: hover and click on note heads ────────────────────────────────
+  const noteAt = (e: React.MouseEvent): string | null => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const px = e.clientX - rect.left;
+    const py = e.clientY - rect.top;
+    let best: string | null = null;
+    let bestDist = HIT_RADIUS * HIT_RADIUS;
+    heads.current.forEach((p, id) => {
+      const d2 = (p.x - px) ** 2 + (p.y - py) ** 2;
+      if (d2 < bestDist) {
+        bestDist = d2;
+        best = id;
+      }
+    });
+    return best;
+  };
+
+  const lastHover = useRef<string | null>(null);
+  const setHover = (id: string | null) => {
+    if (id === lastHover.current) return;
+    lastHover.current = id;
+    onNoteHover(id);
+  };
+
+  const onClick = (e: React.MouseEvent) => {
+    const id = noteAt(e);
+    const note = id && notes.find(n => n.id === id);
+    if (note) onNoteClick(note);
+  };
+
   useEffect(() => {
     const el = containerRef.current;
     if (!el) return;
@@ -172,9 +430,17 @@ export default function VexFlowScore({ notes, parts, layout, threshold, correcti
   return (
     <div className="flex flex-col gap-3">
       <div
-        ref={containerRef}
-        className="rounded-xl overflow-auto border border-slate-600 bg-white min-h-[300px]"
-      />
+        ref={scrollRef}
+        className={`relative rounded-xl overflow-auto border border-slate-600 bg-white min-h-[300px] max-h-[85vh]
+                    ${hover?.source === 'score' ? 'cursor-pointer' : ''}`}
+        onMouseMove={(e) => setHover(noteAt(e))}
+        onMouseLeave={() => setHover(null)}
+        onClick={onClick}
+      >
+        <div ref={containerRef} />
+        <NoteRing mark={hover} heads={heads.current} kind="hover" />
+        <NoteRing mark={selection} heads={heads.current} kind="selected" />
+      </div>
       {notes.length === 0 && (
         <div className="flex flex-col items-center gap-3 py-12 text-center">
           <p className="text-slate-400 text-sm">No score data loaded</p>
@@ -183,3 +449,110 @@ export default function VexFlowScore({ notes, parts, layout, threshold, correcti
     </div>
   );
 }
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Ring around a hovered (blue) or selected (amber) note head, over the SVG. */
+function NoteRing({
+  mark,
+  heads,
+  kind,
+}: {
+  mark: NoteHighlight | null;
+  heads: Map<string, { x: number; y: number }>;
+  kind: 'hover' | 'selected';
+}) {
+  const p = mark && heads.get(mark.id);
+  if (!p) return null;
+  return (
+    <div
+      className={`absolute h-6 w-6 -ml-3 -mt-3 rounded-full border-2 pointer-events-none ${
+        kind === 'selected' ? 'border-amber-500 bg-amber-400/20' : 'border-sky-400 bg-sky-400/15'
+      }`}
+      style={{ left: p.x, top: p.y }}
+    />
+  );
+}
+
+// ─── Clef sign/line → VexFlow clef name ────────────────────────────────────
+const VEX_CLEFS: Record<string, string> = {
+  G1: 'french', G2: 'treble',
+  F3: 'baritone-f', F4: 'bass', F5: 'subbass',
+  C1: 'soprano', C2: 'mezzo-soprano', C3: 'alto', C4: 'tenor', C5: 'baritone-c',
+};
+
+function vexClef(clef: ClefInfo): string {
+  if (clef.sign === 'percussion') return 'percussion';
+  if (clef.sign === 'TAB') return 'tab';
+  return VEX_CLEFS[`${clef.sign}${clef.line}`] ?? 'treble';
+}
+
+function sameClef(a: ClefInfo, b: ClefInfo): boolean {
+  return a.sign === b.sign && a.line === b.line && a.octaveChange === b.octaveChange;
+}
+
+function clefAnnotation(clef: ClefInfo): string | undefined {
+  if (clef.octaveChange === -1) return '8vb';
+  if (clef.octaveChange === 1) return '8va';
+  return undefined;
+}
+
+/** Written pitch on the middle line, where rests without a display position sit. */
+function restKey(clef: ClefInfo): string {
+  const { step, octave } = yOffsetToPitch(20, { ...clef, octaveChange: 0 });
+  return `${step.toLowerCase()}/${octave}`;
+}
+
+/** Time signatures are shown at the start and where they change, unless in free time. */
+function showTime(mi: number, change: TimeInfo | undefined, current: TimeInfo): boolean {
+  if (current.senzaMisura || current.beats == null || current.beatType == null) return false;
+  return mi === 0 || change !== undefined;
+}
+
+/** Split a voice's notes into chords: each note plus the <chord/> notes following it. */
+function chordGroups(voiceNotes: NoteData[]): NoteData[][] {
+  const groups: NoteData[][] = [];
+  for (const n of voiceNotes) {
+    if (n.isChord && groups.length > 0 && !groups[groups.length - 1][0].isRest) {
+      groups[groups.length - 1].push(n);
+    } else {
+      groups.push([n]);
+    }
+  }
+  return groups;
+}
+
+function connect(
+  ctx: ReturnType<Renderer['getContext']>,
+  top: Stave | undefined,
+  bottom: Stave | undefined,
+  type: 'singleLeft' | 'brace',
+): void {
+  if (!top || !bottom) return;
+  new StaveConnector(top, bottom).setType(type).setContext(ctx).draw();
+}
+
+/** Draw a tie; a tie crossing a system break is drawn as two open halves. */
+function drawTie(
+  ctx: ReturnType<Renderer['getContext']>,
+  from: Rendered | undefined,
+  to: Rendered | undefined,
+): void {
+  try {
+    if (from && to && from.sysIdx === to.sysIdx) {
+      new StaveTie({
+        firstNote: from.sn, lastNote: to.sn,
+        firstIndexes: [from.keyIndex], lastIndexes: [to.keyIndex],
+      }).setContext(ctx).draw();
+      return;
+    }
+    if (from) {
+      new StaveTie({ firstNote: from.sn, firstIndexes: [from.keyIndex] }).setContext(ctx).draw();
+    }
+    if (to) {
+      new StaveTie({ lastNote: to.sn, lastIndexes: [to.keyIndex] }).setContext(ctx).draw();
+    }
+  } catch {
+    // skip
+  }
+}
@@ -1,56 +1,170 @@
 export type NoteType = 'whole' | 'half' | 'quarter' | 'eighth' | '16th' | '32nd' | '64th';
 export type StemDir = 'up' | 'down' | 'none';
 export type NoteStatus = 'unreviewed' | 'verified' | 'corrected';
+/** Where a confidence score came from: the OMR engine, a placeholder when it gave none, or a note the reviewer added. */
+export type ConfidenceSource = 'omr' | 'mock' | 'manual';
+export type BeamValue = 'begin' | 'continue' | 'end' | 'forward hook' | 'backward hook';
+
+/** One `<slur>` on a note; `number` tells overlapping slurs apart. */
+export interface SlurMark {
+  number: number;
+  type: 'start' | 'stop' | 'continue';
+  placement?: 'above' | 'below';
+}
 
 export interface NoteData {
   id: string;
   step: string;        // C D E F G A B
   octave: number;
   alter: number;       // 0=natural, -1=flat, 1=sharp
+  accidental: string | null; // written <accidental> (sharp, natural, flat-flat, …); null if none is printed
   noteType: NoteType;
+  dots: number;        // augmentation dots (0–3)
+  duration: number;    // in <divisions> per quarter note (0 if not given)
+  voice: number;       // MusicXML voice number (1-based)
+  staff: number;       // staff within the part (0-based; 1 = lower staff of a grand staff)
+  isChord: boolean;    // sounds with the preceding note (<chord/>)
+  tieStart: boolean;
+  tieStop: boolean;
+  beams: BeamValue[];  // beam state per level; index 0 = primary beam
+  slurs: SlurMark[];
   absX: number;        // absolute x in score tenths (from page left)
   absY: number;        // absolute y in score tenths (from page top) — note head centre
   stemDir: StemDir;
-  confidence: number;  // 0–1 mock value
+  confidence: number;  // 0–1 overall score
+  confidenceSource: ConfidenceSource;
+  confidenceDetail?: ConfidenceDetail; // per-aspect scores, when the OMR engine gives them
   partIndex: number;
-  measureNum: string;
-  measureIndex: number; // 0-based global measure index (0–7)
-  systemIndex: number;  // 0 or 1
+  measureNum: string;   // MusicXML measure number (need not be numeric or unique)
+  measureIndex: number; // 0-based position of the measure in the part
+  systemIndex: number;  // index into ScoreLayout.systems
   isRest: boolean;
   status: NoteStatus;
 }
 
+/** A note picked out in both views; `source` is the view the pointer was in, or review mode. */
+export interface NoteHighlight {
+  id: string;
+  source: 'overlay' | 'score' | 'review';
+}
+
+/** Per-aspect OMR confidence (0–1); absent aspects were not scored. */
+export interface ConfidenceDetail {
+  pitch?: number;
+  duration?: number;
+  accidental?: number;
+}
+
 export interface SystemLayout {
-  /** Staff top Y positions (tenths from page-stack top) for each part in this system. */
-  staffTops: number[];
+  /** Staff top Y positions (tenths from page-stack top), indexed [part][staff]. */
+  staffTops: number[][];
+  /** Lines in each staff (5 unless <staff-lines> says otherwise), indexed [part][staff]. */
+  staffLines: number[][];
+  /** Top to bottom of each staff in tenths, indexed [part][staff]; a one-line staff keeps the five-line height with its line in the middle. */
+  staffHeights: number[][];
+  /** Staves hidden in this system (Finale's optimised empty staves), indexed [part][staff]. */
+  hiddenStaves: boolean[][];
   /** Global measure indices in this system [startInclusive, endExclusive). */
   measureRange: [number, number];
   /** Which page this system is on (0-based). */
   page: number;
 }
 
+export interface MeasureInfo {
+  /** 0-based position in the part (what NoteData.measureIndex refers to). */
+  index: number;
+  /** MusicXML `number` attribute. */
+  number: string;
+  /** Number as printed (the `text` attribute if given, else `number`). */
+  label: string;
+  /** Pickup or other bar that doesn't count in the numbering. */
+  implicit: boolean;
+  systemIndex: number;
+  /** Left edge in tenths from the page left, and width in tenths. */
+  x: number;
+  width: number;
+  repeatStart: boolean;
+  repeatEnd: boolean;
+  /** Times played, from a backward repeat's `times` attribute. */
+  repeatTimes?: number;
+  /** Volta number(s) of the ending this measure is in, e.g. "1" or "1, 2". */
+  ending?: string;
+}
+
+/** A request to bring a measure into view; a new object per request, so jumping to the same bar again re-scrolls. */
+export interface MeasureFocus {
+  measureIndex: number;
+}
+
 export interface ScoreLayout {
   pageWidth: number;
   pageHeight: number;
+  /** Page margins in tenths (from <page-layout>). */
+  margins: { left: number; right: number; top: number; bottom: number };
   /** Total height in tenths (pageHeight * numPages for stacked multi-page). */
   totalHeight: number;
   numPages: number;
   numParts: number;
   systems: SystemLayout[];
+  measures: MeasureInfo[];
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** A point on the score in tenths within a system; `y` runs down the whole page stack, like `NoteData.absY`. */
+export interface ScorePoint {
+  systemIndex: number;
+  x: number;
+  y: number;
 }
 
+/** Four corners in order top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point];
+
 export interface CalibrationState {
   offsetX: number;    // canvas-pixel shift horizontally
   offsetY: number;    // canvas-pixel shift vertically
   scaleX: number;     // horizontal scale multiplier (1 = no change)
   scaleY: number;     // vertical scale multiplier
   noteScale: number;  // note head / symbol size multiplier
+  rotation: number;   // degrees clockwise about the canvas centre
+  /**
+   * Perspective correction: where the canvas corners end up, as fractions of
+   * the canvas size (so it survives resizing). Null for none.
+   */
+  perspective: Quad | null;
+  /**
+   * Per-system overrides on top of the page transform, keyed by system index
+   * (which also fixes the page). Systems without one are interpolated.
+   */
+  systems: Record<number, SystemCalibration>;
 }
 
+/** Layout guides drawn under the notes in the overlay, each switchable. */
+export interface OverlayLayers {
+  staffLines: boolean;
+  barlines: boolean;
+  systemBoxes: boolean;
+  measureNumbers: boolean;
+}
+
+/** A nudge for one system, applied before the page transform. */
+export interface SystemCalibration {
+  offsetX: number; // canvas pixels
+  offsetY: number;
+  scale: number;   // about the system's top-left corner (1 = no change)
+}
+
+/** MusicXML clef signs; only G, F and C clefs place notes by pitch. */
+export type ClefSign = 'G' | 'F' | 'C' | 'percussion' | 'TAB' | 'jianpu' | 'none';
+
 export interface ClefInfo {
-  sign: 'G' | 'F' | 'C';
-  line: number;
-  octaveChange: number; // -1, 0, +1
+  sign: ClefSign;
+  line: number;         // staff line the clef sits on, 1 = bottom
+  octaveChange: number; // -1, 0, +1 (±2 for 15mb/15ma)
 }
 
 export interface KeyInfo {
@@ -64,12 +178,31 @@ export interface TimeInfo {
   senzaMisura: boolean;
 }
 
+/** Clef, key and/or time signature change, at the start of a measure or part-way through it. */
+export interface AttributeChange {
+  measureIndex: number;
+  /**
+   * Page x (tenths, like `NoteData.absX`) from which a change part-way
+   * through the measure applies; absent for one at the start.
+   */
+  x?: number;
+  /** Clefs of every staff after the change (index = staff). */
+  clefs?: ClefInfo[];
+  key?: KeyInfo;
+  time?: TimeInfo;
+}
+
 export interface PartInfo {
   id: string;
   name: string;
-  clef: ClefInfo;
+  /** Number of staves (2 for a grand staff). */
+  staves: number;
+  /** Attributes in force at the start of the part; one clef per staff. */
+  clefs: ClefInfo[];
   key: KeyInfo;
   time: TimeInfo;
+  /** Later changes, in measure order; within a measure, the one at its start first, then by x. */
+  changes: AttributeChange[];
 }
 
 export interface NoteCorrection {
@@ -77,5 +210,42 @@ export interface NoteCorrection {
   octave?: number;
   alter?: number;
   noteType?: NoteType;
+  dots?: number;
+  /** Turns a note into a rest (true) or a rest into a note (false, with the pitch above). */
+  isRest?: boolean;
+  /** Removed from the score, e.g. a smudge the OMR engine read as a note. */
+  deleted?: boolean;
   status: NoteStatus;
 }
+
+/**
+ * A note the OMR engine missed, added by the reviewer. Later changes to it
+ * are kept in the corrections map like any other note's.
+ */
+export interface InsertedNote {
+  /** `p0-m3-x1`: part, measure and a running count, so it never clashes with a parsed note. */
+  id: string;
+  partIndex: number;
+  measureIndex: number;
+  staff: number;
+  voice: number;
+  /** Note it follows in the measure's `<note>` list, original or inserted; null for the first. */
+  after: string | null;
+  /** Added to the chord of the note it follows. */
+  isChord: boolean;
+  step: string;
+  octave: number;
+  alter: number;
+  accidental: string | null;
+  noteType: NoteType;
+  dots: number;
+  isRest: boolean;
+  /** Horizontal position from the measure's left edge in tenths, as `default-x`. */
+  defaultX: number;
+}
+
+/** Everything the reviewer changed about the notes. */
+export interface NoteEdits {
+  corrections: Map<string, NoteCorrection>;
+  insertions: InsertedNote[];
+}
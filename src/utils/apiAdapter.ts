@@ -0,0 +1,436 @@
+import type { ApiMeasure, ApiNote, ApiPart, ApiResponse } from './apiClient';
+import { ORDER_KEY, type RawScore } from './scoreParser';
+
+// ─── Format detection ────────────────────────────────────────────────────────
+
+/** True if the value looks like the structured `ApiResponse` (as opposed to score-partwise JSON). */
+export function isApiResponse(raw: unknown): raw is ApiResponse {
+  if (!raw || typeof raw !== 'object') return false;
+  const parts = (raw as { parts?: unknown }).parts;
+  return Array.isArray(parts) && parts.every(p => p && typeof p === 'object' && Array.isArray((p as ApiPart).measures));
+}
+
+/**
+ * Normalise whatever the OMR service returned into score-partwise JSON.
+ * Accepts either score-partwise JSON or an `ApiResponse` (converted with
+ * synthesized layout). Measure content is given an order, which neither
+ * carries (see `orderMeasureContent`).
+ */
+export function normaliseOmrResult(raw: unknown): RawScore {
+  if (raw && typeof raw === 'object' && 'score-partwise' in raw) return orderMeasureContent(raw as RawScore);
+  if (isApiResponse(raw)) return orderMeasureContent(apiResponseToPartwise(raw));
+  throw new Error('Unrecognised OMR response: expected score-partwise JSON or { parts: [...] }');
+}
+
+// ─── Measure content order ───────────────────────────────────────────────────
+// JSON results have no document order for a measure's children (see
+// `measureContent`), so each measure without one is given the usual layout:
+// print, attributes and directions, left barlines, then each voice's notes
+// in turn with a <backup> to the start of the measure between voices, any
+// <forward>s, and the remaining barlines. Backups the JSON carries cannot be
+// placed and are replaced.
+
+function orderMeasureContent(score: RawScore): RawScore {
+  for (const part of toArray(score['score-partwise']?.part) as LoosePart[]) {
+    for (const m of toArray(part.measure)) {
+      const hasOrder = Object.entries(m).some(([k, v]) =>
+        !k.startsWith('_') && toArray(v).some(c => c && typeof c === 'object' && ORDER_KEY in c));
+      if (!hasOrder) orderMeasure(m);
+    }
+  }
+  return score;
+}
+
+function orderMeasure(m: LooseMeasure): void {
+  delete m.backup;
+  const elements = (name: string): Record<string, unknown>[] => {
+    const v = m[name];
+    const items = toArray(v).map(item =>
+      item && typeof item === 'object' ? item as Record<string, unknown> : item === '' || item == null ? {} : { __text: item });
+    if (v !== undefined) m[name] = Array.isArray(v) ? items : items[0];
+    return items;
+  };
+  const notes = elements('note');
+  const forwards = elements('forward');
+  const barlines = elements('barline');
+  const voiceOf = (n: Record<string, unknown>) => String(n.voice ?? '1');
+  const voices = [...new Set(notes.map(voiceOf))];
+
+  const sequence: Record<string, unknown>[] = [];
+  for (const name of Object.keys(m)) {
+    if (!name.startsWith('_') && !['note', 'forward', 'barline'].includes(name)) sequence.push(...elements(name));
+  }
+  sequence.push(...barlines.filter(b => b._location === 'left'));
+
+  const backups: Record<string, unknown>[] = [];
+  voices.forEach((voice, vi) => {
+    let elapsed = 0;
+    for (const n of notes) {
+      if (voiceOf(n) !== voice) continue;
+      sequence.push(n);
+      if (n.chord === undefined && n.grace === undefined) elapsed += Number(n.duration) || 0;
+    }
+    if (vi < voices.length - 1 && elapsed > 0) {
+      const backup = { duration: String(elapsed) };
+      backups.push(backup);
+      sequence.push(backup);
+    }
+  });
+  if (backups.length > 0) m.backup = backups;
+
+  sequence.push(...forwards, ...barlines.filter(b => b._location !== 'left'));
+  sequence.forEach((child, i) => { child[ORDER_KEY] = String(i); });
+}
+
+// ─── Synthesized page geometry (tenths) ─────────────────────────────────────
+// Same defaults the parser falls back to, written out explicitly so that the
+// converted score is self-describing (and survives a MusicXML export).
+const PAGE_W = 1365;
+const PAGE_H = 1922;
+const MARGIN_X = 130;
+const MARGIN_Y = 97;
+const STAFF_H = 40;
+const STAFF_DIST = 82;
+const SYSTEM_DIST = 109;
+const TOP_SYSTEM_DIST = 109;
+const CONTENT_W = PAGE_W - 2 * MARGIN_X;
+
+// Horizontal spacing used when the server gives no default-x
+const SYSTEM_HEADER_W = 70;     // clef + time signature at the start of a system
+const KEY_ACCIDENTAL_W = 10;    // per sharp/flat in the key signature
+const MEASURE_PAD_START = 15;
+const MEASURE_PAD_END = 15;
+const MIN_NOTE_SPACING = 28;
+
+// ─── ApiResponse → score-partwise JSON ───────────────────────────────────────
+
+/**
+ * Convert the structured `ApiResponse` into score-partwise JSON with a
+ * synthesized layout: measures are packed into justified systems and systems
+ * onto pages, and note positions are derived from rhythmic onsets where the
+ * server gives no `default_x`.
+ */
+export function apiResponseToPartwise(resp: ApiResponse): RawScore {
+  const parts = resp.parts;
+  const numParts = parts.length;
+  const numMeasures = Math.max(0, ...parts.map(p => p.measures.length));
+
+  // ── Natural measure widths (max over parts, so all parts line up) ───────
+  const fifths = firstAttribute(parts, a => a.key?.fifths) ?? 0;
+  const headerW = SYSTEM_HEADER_W + Math.abs(fifths) * KEY_ACCIDENTAL_W;
+  const naturalW: number[] = [];
+  for (let mi = 0; mi < numMeasures; mi++) {
+    let w = 0;
+    for (const part of parts) {
+      const m = part.measures[mi];
+      if (!m) continue;
+      const given = m.width;
+      w = Math.max(w, given ?? MEASURE_PAD_START + MEASURE_PAD_END + onsetCount(m) * MIN_NOTE_SPACING);
+    }
+    naturalW.push(w);
+  }
+
+  // ── Pack measures into systems, systems onto pages ──────────────────────
+  interface SysPlan { start: number; end: number; page: number }
+  const systems: SysPlan[] = [];
+  let start = 0;
+  let used = headerW;
+  for (let mi = 0; mi < numMeasures; mi++) {
+    if (mi > start && used + naturalW[mi] > CONTENT_W) {
+      systems.push({ start, end: mi, page: 0 });
+      start = mi;
+      used = headerW;
+    }
+    used += naturalW[mi];
+  }
+  if (numMeasures > 0) systems.push({ start, end: numMeasures, page: 0 });
+
+  const systemH = numParts * STAFF_H + Math.max(0, numParts - 1) * STAFF_DIST;
+  const pageContentH = PAGE_H - 2 * MARGIN_Y;
+  let page = 0;
+  let y = TOP_SYSTEM_DIST + systemH;
+  systems.forEach((sys, si) => {
+    if (si > 0) {
+      y += SYSTEM_DIST + systemH;
+      if (y > pageContentH) {
+        page++;
+        y = TOP_SYSTEM_DIST + systemH;
+      }
+    }
+    sys.page = page;
+  });
+
+  // ── Justify measure widths so each system fills the line ────────────────
+  const widths = naturalW.slice();
+  const firstInSystem = new Set<number>();
+  for (const sys of systems) {
+    firstInSystem.add(sys.start);
+    widths[sys.start] += headerW;
+    const natural = widths.slice(sys.start, sys.end).reduce((a, b) => a + b, 0);
+    // Don't stretch a short final system beyond twice its natural width
+    const target = sys === systems[systems.length - 1] ? Math.min(CONTENT_W, natural * 2) : CONTENT_W;
+    const k = natural > 0 ? target / natural : 1;
+    for (let mi = sys.start; mi < sys.end; mi++) widths[mi] = Math.round(widths[mi] * k);
+  }
+  const systemStart = new Map(systems.map(s => [s.start, s]));
+
+  // ── Build parts ─────────────────────────────────────────────────────────
+  const rawParts = parts.map(part => ({
+    _id: part.id,
+    measure: part.measures.map((m, mi) => {
+      const sys = systemStart.get(mi);
+      const prevSys = sys && systems[systems.indexOf(sys) - 1];
+      const print =
+        sys && mi > 0
+          ? prevSys && prevSys.page !== sys.page
+            ? { '_new-page': 'yes' }
+            : { '_new-system': 'yes' }
+          : undefined;
+      const leftPad = MEASURE_PAD_START + (firstInSystem.has(mi) ? headerW : 0);
+      const barline = convertBarlines(m);
+      return {
+        ...(print && { print }),
+        ...(m.attributes && { attributes: convertAttributes(m) }),
+        note: convertNotes(m, leftPad, widths[mi] - leftPad - MEASURE_PAD_END),
+        ...(barline.length > 0 && { barline }),
+        _number: String(m.number),
+        ...(m.implicit && { _implicit: 'yes' }),
+        _width: String(widths[mi]),
+      };
+    }),
+  }));
+
+  return {
+    'score-partwise': {
+      ...(resp.title && { work: { 'work-title': resp.title } }),
+      defaults: {
+        'page-layout': {
+          'page-height': String(PAGE_H),
+          'page-width': String(PAGE_W),
+          'page-margins': {
+            'left-margin': String(MARGIN_X),
+            'right-margin': String(MARGIN_X),
+            'top-margin': String(MARGIN_Y),
+            'bottom-margin': String(MARGIN_Y),
+          },
+        },
+        'system-layout': {
+          'system-distance': String(SYSTEM_DIST),
+          'top-system-distance': String(TOP_SYSTEM_DIST),
+        },
+        'staff-layout': { 'staff-distance': String(STAFF_DIST) },
+      },
+      ...(resp.credits.length > 0 && {
+        credit: resp.credits.map(text => ({ 'credit-words': text, _page: '1' })),
+      }),
+      'part-list': {
+        'score-part': parts.map(p => ({
+          'part-name': p.instrument,
+          'score-instrument': { 'instrument-name': p.instrument, _id: `${p.id}-I1` },
+          _id: p.id,
+        })),
+      },
+      part: rawParts,
+    },
+  };
+}
+
+// ─── Measure content ─────────────────────────────────────────────────────────
+
+function convertAttributes(m: ApiMeasure): Record<string, unknown> {
+  const a = m.attributes!;
+  const out: Record<string, unknown> = { divisions: String(a.divisions) };
+  if (a.key) out.key = { fifths: String(a.key.fifths), mode: a.key.mode ?? 'major' };
+  if (a.time) {
+    out.time = a.time.beats != null && a.time.beat_type != null
+      ? { beats: a.time.beats, 'beat-type': a.time.beat_type }
+      : { 'senza-misura': '' };
+  }
+  if (a.clef) out.clef = { sign: a.clef.sign, line: String(a.clef.line) };
+  return out;
+}
+
+/**
+ * Left and right `<barline>` elements for the measure's repeat signs, bar
+ * style and volta bracket. A volta starts on the left barline and stops on
+ * the right one.
+ */
+function convertBarlines(m: ApiMeasure): Record<string, unknown>[] {
+  const style = m.barline ?? '';
+  const repeatStart = style === 'repeat-start' || style === 'repeat-both';
+  const repeatEnd = style === 'repeat-end' || style === 'repeat-both';
+  const rightStyle = repeatEnd ? 'light-heavy' : style.startsWith('repeat-') ? '' : style;
+
+  // Children in schema order: bar-style, ending, repeat
+  const left: Record<string, unknown> = {
+    ...(repeatStart && { 'bar-style': 'heavy-light' }),
+    ...(m.ending?.start && { ending: { _number: m.ending.number, _type: 'start' } }),
+    ...(repeatStart && { repeat: { _direction: 'forward' } }),
+  };
+  const right: Record<string, unknown> = {
+    ...(rightStyle && { 'bar-style': rightStyle }),
+    ...(m.ending?.stop && { ending: { _number: m.ending.number, _type: m.ending.stop } }),
+    ...(repeatEnd && { repeat: { _direction: 'backward' } }),
+  };
+
+  const out: Record<string, unknown>[] = [];
+  if (Object.keys(left).length > 0) out.push({ ...left, _location: 'left' });
+  if (Object.keys(right).length > 0) out.push({ ...right, _location: 'right' });
+  return out;
+}
+
+/** Lay notes out proportionally to their onset within the measure's inner width. */
+function convertNotes(m: ApiMeasure, leftPad: number, innerW: number): Record<string, unknown>[] {
+  const onsets = noteOnsets(m);
+  const length = Math.max(1, measureLength(m));
+  return m.notes.map((n, i) => convertNote(n, n.default_x ?? Math.round(leftPad + (onsets[i] / length) * innerW)));
+}
+
+function convertNote(n: ApiNote, x: number): Record<string, unknown> {
+  const note: Record<string, unknown> = {};
+  if (n.chord) note.chord = '';
+  if (n.rest || !n.pitch) {
+    note.rest = '';
+  } else {
+    note.pitch = {
+      step: n.pitch.step,
+      ...(n.pitch.alter != null && n.pitch.alter !== 0 && { alter: String(n.pitch.alter) }),
+      octave: String(n.pitch.octave),
+    };
+  }
+  note.duration = String(n.duration);
+  if (n.tied?.length) note.tie = n.tied.map(t => ({ _type: t }));
+  note.voice = String(n.voice);
+  note.type = n.type;
+  if (n.dot) note.dot = '';
+  if (n.accidental) note.accidental = n.accidental;
+  if (n.stem) note.stem = { __text: n.stem };
+  if (n.beam) note.beam = { __text: n.beam.value, _number: String(n.beam.number) };
+
+  const notations: Record<string, unknown> = {};
+  if (n.tied?.length) notations.tied = n.tied.map(t => ({ _type: t }));
+  if (n.slur?.length) notations.slur = n.slur.map(s => ({ _number: String(s.number), _type: s.type }));
+  if (Object.keys(notations).length > 0) note.notations = notations;
+
+  if (n.lyric?.text) {
+    note.lyric = { ...(n.lyric.syllabic && { syllabic: n.lyric.syllabic }), text: n.lyric.text, _number: '1' };
+  }
+  note['_default-x'] = String(x);
+  if (n.confidence != null) note._confidence = String(n.confidence);
+  for (const [aspect, v] of Object.entries(n.confidence_detail ?? {})) {
+    if (v != null) note[`_confidence-${aspect}`] = String(v);
+  }
+  return note;
+}
+
+/** Onset (in divisions) of every note, tracked separately per voice; chord notes share the previous onset. */
+function noteOnsets(m: ApiMeasure): number[] {
+  const voiceTime = new Map<number, number>();
+  let lastOnset = 0;
+  return m.notes.map(n => {
+    if (n.chord) return lastOnset;
+    const t = voiceTime.get(n.voice) ?? 0;
+    voiceTime.set(n.voice, t + n.duration);
+    lastOnset = t;
+    return t;
+  });
+}
+
+function measureLength(m: ApiMeasure): number {
+  const voiceTime = new Map<number, number>();
+  for (const n of m.notes) {
+    if (!n.chord) voiceTime.set(n.voice, (voiceTime.get(n.voice) ?? 0) + n.duration);
+  }
+  return Math.max(0, ...voiceTime.values());
+}
+
+function onsetCount(m: ApiMeasure): number {
+  return new Set(noteOnsets(m)).size;
+}
+
+function firstAttribute<T>(parts: ApiPart[], pick: (a: NonNullable<ApiMeasure['attributes']>) => T | undefined): T | undefined {
+  for (const part of parts) {
+    for (const m of part.measures) {
+      const v = m.attributes ? pick(m.attributes) : undefined;
+      if (v !== undefined) return v;
+    }
+  }
+  return undefined;
+}
+
+// ─── Multi-page results ──────────────────────────────────────────────────────
+
+type LooseMeasure = Record<string, unknown> & { print?: Record<string, unknown>; _number?: string };
+type LoosePart = Record<string, unknown> & { measure?: LooseMeasure | LooseMeasure[] };
+
+/**
+ * Join per-page OMR results (one per page image, in page order) into one
+ * score. Each page after the first starts with `<print new-page="yes">`, and
+ * page breaks inside a page's own result are demoted to system breaks so
+ * that score pages stay in step with the images. Page layout and the part
+ * list come from the first page; parts are matched by position. Measure
+ * numbers that restart on a new page are continued from the previous page.
+ */
+export function mergePageScores(pages: RawScore[]): RawScore {
+  if (pages.length === 0) throw new Error('No pages to merge');
+  if (pages.length === 1) return pages[0];
+
+  const first = structuredClone(pages[0]['score-partwise']);
+  if (!first) throw new Error('Not a score-partwise JSON');
+  const parts = toArray(first.part) as LoosePart[];
+  const merged = parts.map(p => toArray(p.measure).map(demotePageBreak));
+  const credits = toArray(first.credit as Record<string, unknown> | Record<string, unknown>[] | undefined);
+
+  let lastNumber = lastMeasureNumber(merged[0]);
+  pages.slice(1).forEach((page, i) => {
+    const pw = page['score-partwise'];
+    if (!pw) throw new Error(`Page ${i + 2}: not a score-partwise JSON`);
+    const pageParts = toArray(pw.part) as LoosePart[];
+    const numMeasures = Math.max(0, ...pageParts.map(p => toArray(p.measure).length));
+
+    // Continue the numbering if this page starts again from 1 (or 0 for a pickup)
+    const firstNum = Number(toArray(pageParts[0]?.measure)[0]?._number);
+    const offset = Number.isFinite(firstNum) && firstNum <= lastNumber ? lastNumber : 0;
+
+    merged.forEach((measures, p) => {
+      const source = toArray(pageParts[p]?.measure);
+      for (let mi = 0; mi < numMeasures; mi++) {
+        // A part the OMR missed on this page gets empty measures to stay aligned
+        const m = structuredClone(source[mi]) ?? { _number: toArray(pageParts[0]?.measure)[mi]?._number };
+        const out = demotePageBreak(m as LooseMeasure);
+        // A new <print> goes first in the measure
+        if (mi === 0) out.print = { [ORDER_KEY]: '-1', ...out.print, '_new-page': 'yes' };
+        const n = Number(out._number);
+        if (offset && Number.isFinite(n)) out._number = String(n + offset);
+        measures.push(out);
+      }
+    });
+    lastNumber = lastMeasureNumber(merged[0]);
+
+    const pageCredits = toArray(pw.credit as Record<string, unknown> | Record<string, unknown>[] | undefined);
+    credits.push(...pageCredits.map(c => ({ ...structuredClone(c), _page: String(i + 2) })));
+  });
+
+  parts.forEach((p, i) => { p.measure = merged[i]; });
+  if (credits.length > 0) first.credit = credits;
+  return { 'score-partwise': first };
+}
+
+function demotePageBreak(m: LooseMeasure): LooseMeasure {
+  if (m.print?.['_new-page'] !== 'yes') return m;
+  const { '_new-page': _, ...rest } = m.print;
+  return { ...m, print: { ...rest, '_new-system': 'yes' } };
+}
+
+function lastMeasureNumber(measures: LooseMeasure[]): number {
+  for (let i = measures.length - 1; i >= 0; i--) {
+    const n = Number(measures[i]._number);
+    if (Number.isFinite(n)) return n;
+  }
+  return 0;
+}
+
+function toArray<T>(v: T | T[] | undefined | null): T[] {
+  if (v == null) return [];
+  return Array.isArray(v) ? v : [v];
+}
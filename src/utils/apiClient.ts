@@ -1,3 +1,5 @@
+import type { RawScore } from './scoreParser';
+
 const API_BASE = 'http://127.0.0.1:3000';
 
 export interface ApiNote {
@@ -14,6 +16,12 @@ export interface ApiNote {
   lyric?: { syllabic: string | null; text: string | null };
   tied?: string[];
   slur?: { number: number; type: string }[];
+  /** Horizontal position in tenths from the measure start, if the server engraved the score. */
+  default_x?: number;
+  /** Recognition confidence (0–1) of the symbol overall. */
+  confidence?: number;
+  /** Recognition confidence (0–1) of individual aspects of the symbol. */
+  confidence_detail?: { pitch?: number; duration?: number; accidental?: number };
 }
 
 export interface ApiAttributes {
@@ -25,9 +33,22 @@ export interface ApiAttributes {
 
 export interface ApiMeasure {
   number: number;
+  /**
+   * Right barline as a MusicXML bar-style ("light-heavy", "light-light", …),
+   * or "repeat-start", "repeat-end" or "repeat-both" for repeat barlines.
+   */
   barline: string | null;
+  /**
+   * Volta bracket that starts and/or ends on this measure ("discontinue"
+   * leaves the bracket open at the end, as for a last ending).
+   */
+  ending?: { number: string; start?: boolean; stop?: 'stop' | 'discontinue' };
+  /** True for a pickup (anacrusis) bar that is not counted in the numbering. */
+  implicit?: boolean;
   attributes?: ApiAttributes;
   notes: ApiNote[];
+  /** Measure width in tenths, if the server engraved the score. */
+  width?: number;
 }
 
 export interface ApiPart {
@@ -57,9 +78,12 @@ function fileToBase64(file: File): Promise<string> {
   });
 }
 
-/** Send an image to the OMR API and get digitized score back. */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function digitizeImage(file: File): Promise<any> {
+/**
+ * Send an image to the OMR API and get digitized score back. Depending on the
+ * backend this is either score-partwise JSON or the structured `ApiResponse`;
+ * pass it through `normaliseOmrResult` before parsing.
+ */
+export async function digitizeImage(file: File): Promise<ApiResponse | RawScore> {
   const base64 = await fileToBase64(file);
 
   const res = await fetch(`${API_BASE}/api/omr`, {
@@ -0,0 +1,74 @@
+import type { ClefInfo, ClefSign } from '../types';
+
+// ─── Staff-position mapping for any clef ─────────────────────────────────────
+// A clef fixes one reference pitch to one staff line: G4 for the G clef, F3
+// for F and C4 for C. Lines count from the bottom (1) to the top (5) and the
+// staff top is line 5, so a line sits (5 − line) × 10 tenths below it and each
+// diatonic step moves 5 tenths. `clef-octave-change` moves the written notes
+// an octave away from the sounding pitch (treble 8vb: C4 sounds, C5 is shown).
+
+const STEP_NUM: Record<string, number> = {
+  C: 0, D: 1, E: 2, F: 3, G: 4, A: 5, B: 6,
+};
+const STEPS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+/** Diatonic number (octave × 7 + step) of the pitch each pitched clef sign marks. */
+const REFERENCE_PITCH: Partial<Record<ClefSign, number>> = {
+  G: 4 * 7 + STEP_NUM.G,
+  F: 3 * 7 + STEP_NUM.F,
+  C: 4 * 7 + STEP_NUM.C,
+};
+
+/** Default line for each sign when <line> is omitted. */
+export const DEFAULT_CLEF_LINE: Record<ClefSign, number> = {
+  G: 2, F: 4, C: 3, percussion: 3, TAB: 5, jianpu: 3, none: 3,
+};
+
+/** True if notes on this clef can be placed by pitch (G, F and C clefs). */
+export function isPitchedClef(clef: ClefInfo): boolean {
+  return REFERENCE_PITCH[clef.sign] !== undefined;
+}
+
+/**
+ * Clef used for placement. Unpitched signs (percussion, TAB, …) fall back to
+ * a treble clef, which is how percussion display positions are written.
+ */
+function placementClef(clef: ClefInfo): { ref: number; line: number; octaveChange: number } {
+  const ref = REFERENCE_PITCH[clef.sign];
+  if (ref === undefined) return { ref: REFERENCE_PITCH.G!, line: 2, octaveChange: 0 };
+  return { ref, line: clef.line, octaveChange: clef.octaveChange };
+}
+
+/** Vertical offset in tenths from the staff top (line 5) to a note head of this sounding pitch. */
+export function pitchToYOffset(step: string, octave: number, clef: ClefInfo): number {
+  const { ref, line, octaveChange } = placementClef(clef);
+  const p = octave * 7 + STEP_NUM[step] - 7 * octaveChange;
+  return (5 - line) * 10 - 5 * (p - ref);
+}
+
+/** Inverse of `pitchToYOffset`: the sounding pitch at a staff position (rounded to the nearest step). */
+export function yOffsetToPitch(yOffset: number, clef: ClefInfo): { step: string; octave: number } {
+  const { ref, line, octaveChange } = placementClef(clef);
+  const p = ref + Math.round(((5 - line) * 10 - yOffset) / 5) + 7 * octaveChange;
+  const octave = Math.floor(p / 7);
+  return { step: STEPS[p - octave * 7], octave };
+}
+
+/** Human-readable clef name, e.g. "Alto clef", "Treble clef (8vb)". */
+export function clefLabel(clef: ClefInfo): string {
+  let name: string;
+  if (clef.sign === 'G') name = clef.line === 1 ? 'French violin' : clef.line === 2 ? 'Treble' : `G (line ${clef.line})`;
+  else if (clef.sign === 'F') name = clef.line === 4 ? 'Bass' : clef.line === 3 ? 'Baritone' : clef.line === 5 ? 'Sub-bass' : `F (line ${clef.line})`;
+  else if (clef.sign === 'C') name = C_CLEF_NAMES[clef.line] ?? `C (line ${clef.line})`;
+  else if (clef.sign === 'percussion') name = 'Percussion';
+  else if (clef.sign === 'TAB') name = 'Tablature';
+  else name = clef.sign === 'none' ? 'No' : clef.sign;
+
+  const oc = clef.octaveChange;
+  const suffix = oc === -1 ? ' (8vb)' : oc === 1 ? ' (8va)' : oc === -2 ? ' (15mb)' : oc === 2 ? ' (15ma)' : '';
+  return `${name} clef${suffix}`;
+}
+
+const C_CLEF_NAMES: Record<number, string> = {
+  1: 'Soprano', 2: 'Mezzo-soprano', 3: 'Alto', 4: 'Tenor', 5: 'Baritone (C)',
+};
@@ -0,0 +1,83 @@
+// ─── Undo / redo ─────────────────────────────────────────────────────────────
+// The history keeps a snapshot of the edited state after every change. The
+// state is immutable (a fresh Map or object on each edit), so a snapshot is
+// just a reference. Bursts of the same kind of change — a slider being
+// dragged, a run of arrow-key steps on one note — share a `mergeKey` and are
+// folded into a single entry.
+
+export interface HistoryEntry<T> {
+  /** Shown in the history list, e.g. "Correct E4 (m. 3)". */
+  label: string;
+  state: T;
+  /** Milliseconds since the epoch of the last change folded into this entry. */
+  time: number;
+  mergeKey?: string;
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  /** Undone entries, the next one to redo first. */
+  future: HistoryEntry<T>[];
+}
+
+/** Oldest entries are dropped beyond this. */
+const MAX_ENTRIES = 200;
+/** Changes with the same merge key closer together than this share an entry. */
+const MERGE_WINDOW_MS = 1000;
+
+export function startHistory<T>(label: string, state: T): History<T> {
+  return { past: [], present: { label, state, time: Date.now() }, future: [] };
+}
+
+/** Record a new state. Anything that was undone can no longer be redone. */
+export function record<T>(h: History<T>, label: string, state: T, mergeKey?: string): History<T> {
+  const time = Date.now();
+  const { present } = h;
+  if (mergeKey && present.mergeKey === mergeKey && h.future.length === 0 && time - present.time < MERGE_WINDOW_MS) {
+    return { ...h, present: { ...present, state, time } };
+  }
+  return {
+    past: [...h.past, present].slice(-MAX_ENTRIES),
+    present: { label, state, time, mergeKey },
+    future: [],
+  };
+}
+
+export function canUndo(h: History<unknown>): boolean {
+  return h.past.length > 0;
+}
+
+export function canRedo(h: History<unknown>): boolean {
+  return h.future.length > 0;
+}
+
+export function undo<T>(h: History<T>): History<T> {
+  if (!canUndo(h)) return h;
+  return {
+    past: h.past.slice(0, -1),
+    present: h.past[h.past.length - 1],
+    future: [h.present, ...h.future],
+  };
+}
+
+export function redo<T>(h: History<T>): History<T> {
+  if (!canRedo(h)) return h;
+  return {
+    past: [...h.past, h.present],
+    present: h.future[0],
+    future: h.future.slice(1),
+  };
+}
+
+/** All entries oldest first; the present one is at index `past.length`. */
+export function historyEntries<T>(h: History<T>): HistoryEntry<T>[] {
+  return [...h.past, h.present, ...h.future];
+}
+
+/** Undo or redo until entry `index` of `historyEntries(h)` is the present one. */
+export function jumpTo<T>(h: History<T>, index: number): History<T> {
+  const all = historyEntries(h);
+  if (index < 0 || index >= all.length) return h;
+  return { past: all.slice(0, index), present: all[index], future: all.slice(index + 1) };
+}
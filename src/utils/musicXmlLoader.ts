@@ -0,0 +1,206 @@
+import { XMLParser } from 'fast-xml-parser';
+import { ORDER_KEY, type RawScore } from './scoreParser';
+
+// ─── File type detection ─────────────────────────────────────────────────────
+const XML_EXTENSIONS = ['.musicxml', '.xml'];
+const MXL_EXTENSION = '.mxl';
+
+/** True if the file is an uncompressed (.musicxml/.xml) or compressed (.mxl) MusicXML file. */
+export function isScoreFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return (
+    name.endsWith(MXL_EXTENSION) ||
+    XML_EXTENSIONS.some(ext => name.endsWith(ext)) ||
+    file.type === 'application/vnd.recordare.musicxml' ||
+    file.type === 'application/vnd.recordare.musicxml+xml'
+  );
+}
+
+// ─── XML → score-partwise JSON ───────────────────────────────────────────────
+// Options chosen so the output has the same shape as the pre-converted JSON
+// the parser already understands: attributes as `_name`, mixed text as
+// `__text`, and every value kept as a string.
+const PARSER_OPTIONS = {
+  ignoreAttributes: false,
+  attributeNamePrefix: '_',
+  textNodeName: '__text',
+  parseTagValue: false,
+  parseAttributeValue: false,
+  ignoreDeclaration: true,
+  ignorePiTags: true,
+  trimValues: true,
+};
+const xmlParser = new XMLParser(PARSER_OPTIONS);
+// The same document as a tree of single-key nodes in document order
+const orderedParser = new XMLParser({ ...PARSER_OPTIONS, preserveOrder: true });
+
+/** Parse a MusicXML document string into the score-partwise JSON shape. */
+export function parseMusicXml(xml: string): RawScore {
+  const doc = xmlParser.parse(xml) as RawScore & { 'score-timewise'?: unknown };
+  if (doc['score-timewise']) {
+    throw new Error('score-timewise MusicXML is not supported — re-export the file as partwise');
+  }
+  if (!doc['score-partwise']) throw new Error('Not a MusicXML score-partwise document');
+  recordMeasureOrder(doc, orderedParser.parse(xml) as OrderedNode[]);
+  return doc;
+}
+
+// ─── Source order of measure content ─────────────────────────────────────────
+// The grouped JSON keeps repeated elements in arrays per name, so a measure's
+// notes, <backup>s, <forward>s, <direction>s and mid-measure <attributes>
+// lose their interleaving. Each child of a measure is tagged with its
+// position (see `measureContent`); empty elements become objects to hold it.
+
+type OrderedNode = Record<string, unknown>;
+
+function recordMeasureOrder(doc: RawScore, ordered: OrderedNode[]): void {
+  const parts = toArray(doc['score-partwise']?.part) as Record<string, unknown>[];
+  const orderedParts = childrenNamed(childrenNamed(ordered, 'score-partwise')[0], 'part');
+  parts.forEach((part, pi) => {
+    const measures = toArray(part.measure) as Record<string, unknown>[];
+    childrenNamed(orderedParts[pi], 'measure').forEach((om, mi) => {
+      const measure = measures[mi];
+      if (!measure) return;
+      const seen = new Map<string, number>();
+      (om.measure as OrderedNode[]).forEach((child, order) => {
+        const name = nodeName(child);
+        if (!name || name.startsWith('_')) return; // text
+        const k = seen.get(name) ?? 0;
+        seen.set(name, k + 1);
+        const items = measure[name];
+        const value = Array.isArray(items) ? items[k] : k === 0 ? items : undefined;
+        if (value === undefined) return;
+        const tagged: Record<string, unknown> = value && typeof value === 'object'
+          ? value as Record<string, unknown>
+          : value === '' ? {} : { __text: value };
+        tagged[ORDER_KEY] = String(order);
+        if (tagged !== value) {
+          if (Array.isArray(items)) items[k] = tagged;
+          else measure[name] = tagged;
+        }
+      });
+    });
+  });
+}
+
+function nodeName(node: OrderedNode): string | undefined {
+  return Object.keys(node).find(k => k !== ':@');
+}
+
+/** Children of an ordered node (or the top-level list) with the given element name. */
+function childrenNamed(parent: OrderedNode | OrderedNode[] | undefined, name: string): OrderedNode[] {
+  const list = Array.isArray(parent) ? parent : parent ? (parent[nodeName(parent)!] as OrderedNode[]) : [];
+  return (list ?? []).filter(n => nodeName(n) === name);
+}
+
+function toArray<T>(v: T | T[] | undefined | null): T[] {
+  if (v == null) return [];
+  return Array.isArray(v) ? v : [v];
+}
+
+/** Read a .musicxml, .xml or .mxl file into the score-partwise JSON shape. */
+export async function loadScoreFile(file: File): Promise<RawScore> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const xml = isZip(bytes) ? await extractMxlRoot(bytes) : decodeXml(bytes);
+  return parseMusicXml(xml);
+}
+
+/** Decode XML bytes, honouring a UTF-16 byte-order mark (Finale writes UTF-16 sometimes). */
+function decodeXml(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+// ─── Compressed MusicXML (.mxl) ──────────────────────────────────────────────
+// An .mxl file is a zip archive whose META-INF/container.xml names the root
+// score document. Only "stored" and "deflate" entries occur in practice; the
+// latter is inflated with the browser's DecompressionStream.
+
+const SIG_LOCAL = 0x04034b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_END = 0x06054b50;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && readU32(bytes, 0) === SIG_LOCAL;
+}
+
+async function extractMxlRoot(bytes: Uint8Array): Promise<string> {
+  const entries = readCentralDirectory(bytes);
+  const byName = new Map(entries.map(e => [e.name, e]));
+
+  let rootPath: string | undefined;
+  const container = byName.get('META-INF/container.xml');
+  if (container) {
+    const doc = xmlParser.parse(decodeXml(await readEntry(bytes, container))) as {
+      container?: { rootfiles?: { rootfile?: { '_full-path'?: string } | Array<{ '_full-path'?: string }> } };
+    };
+    const rootfile = doc.container?.rootfiles?.rootfile;
+    rootPath = (Array.isArray(rootfile) ? rootfile[0] : rootfile)?.['_full-path'];
+  }
+  // Fall back to the first score document outside META-INF
+  rootPath ??= entries.find(e =>
+    !e.name.startsWith('META-INF/') && XML_EXTENSIONS.some(ext => e.name.toLowerCase().endsWith(ext)),
+  )?.name;
+
+  const root = rootPath ? byName.get(rootPath) : undefined;
+  if (!root) throw new Error('MXL archive contains no MusicXML score');
+  return decodeXml(await readEntry(bytes, root));
+}
+
+function readCentralDirectory(bytes: Uint8Array): ZipEntry[] {
+  // End-of-central-directory record: 22 bytes plus an optional comment (≤ 64 KiB)
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (readU32(bytes, i) === SIG_END) { end = i; break; }
+  }
+  if (end < 0) throw new Error('Invalid MXL archive (no zip directory found)');
+
+  const count = readU16(bytes, end + 10);
+  let pos = readU32(bytes, end + 16);
+  const entries: ZipEntry[] = [];
+  const decoder = new TextDecoder('utf-8');
+
+  for (let i = 0; i < count; i++) {
+    if (readU32(bytes, pos) !== SIG_CENTRAL) throw new Error('Invalid MXL archive (corrupt zip directory)');
+    const nameLen = readU16(bytes, pos + 28);
+    const extraLen = readU16(bytes, pos + 30);
+    const commentLen = readU16(bytes, pos + 32);
+    entries.push({
+      method: readU16(bytes, pos + 10),
+      compressedSize: readU32(bytes, pos + 20),
+      localOffset: readU32(bytes, pos + 42),
+      name: decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLen)),
+    });
+    pos += 46 + nameLen + extraLen + commentLen;
+  }
+  return entries;
+}
+
+async function readEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const pos = entry.localOffset;
+  if (readU32(bytes, pos) !== SIG_LOCAL) throw new Error(`Invalid MXL archive (bad entry ${entry.name})`);
+  const start = pos + 30 + readU16(bytes, pos + 26) + readU16(bytes, pos + 28);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return data;
+  if (entry.method !== 8) throw new Error(`Unsupported compression method ${entry.method} in MXL archive`);
+
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function readU16(bytes: Uint8Array, pos: number): number {
+  return bytes[pos] | (bytes[pos + 1] << 8);
+}
+
+function readU32(bytes: Uint8Array, pos: number): number {
+  return (readU16(bytes, pos) | (readU16(bytes, pos + 2) << 16)) >>> 0;
+}
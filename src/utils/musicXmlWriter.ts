@@ -0,0 +1,276 @@
+import { XMLBuilder } from 'fast-xml-parser';
+import type { InsertedNote, NoteCorrection, NoteType } from '../types';
+import { measureContent, noteId, ORDER_KEY, type RawScore } from './scoreParser';
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Serialise the parsed score back to a MusicXML score-partwise document with
+ * the reviewer's corrections and added notes applied. Everything not touched
+ * by a correction (parts, clefs, keys, times, print/system-break layout,
+ * lyrics, directions…) is written back as it was read.
+ */
+export function exportMusicXml(
+  score: RawScore,
+  corrections: Map<string, NoteCorrection>,
+  insertions: InsertedNote[] = [],
+): string {
+  const partwise = score['score-partwise'];
+  if (!partwise) throw new Error('Not a score-partwise JSON');
+
+  const corrected = applyCorrections(score, corrections, insertions);
+  const body = (builder.build([toOrdered('score-partwise', corrected['score-partwise'])]) as string).trim();
+  const version = String(partwise._version ?? '4.0');
+  return `${XML_DECLARATION}\n${doctype(version)}\n${body}\n`;
+}
+
+/**
+ * Return a deep copy of the score with each correction written into its
+ * `<note>`, added notes slotted in after the note they follow and deleted
+ * notes left out.
+ */
+export function applyCorrections(
+  score: RawScore,
+  corrections: Map<string, NoteCorrection>,
+  insertions: InsertedNote[] = [],
+): RawScore {
+  const copy = structuredClone(score);
+  if (corrections.size === 0 && insertions.length === 0) return copy;
+
+  toArray(copy['score-partwise']?.part).forEach((part, partIdx) => {
+    let divisions = 1;
+    toArray(part.measure).forEach((measure, measureIdx) => {
+      const m = measure as Record<string, unknown>;
+      for (const attrs of toArray(m.attributes) as Record<string, unknown>[]) {
+        if (attrs.divisions !== undefined) divisions = Number(textOf(attrs.divisions)) || divisions;
+      }
+
+      const entries = (toArray(m.note) as RawNoteObject[]).map((note, noteIdx) => ({
+        id: noteId(partIdx, measureIdx, noteIdx),
+        note,
+      }));
+      const added = insertions.filter(ins => ins.partIndex === partIdx && ins.measureIndex === measureIdx);
+      if (added.length === 0 && !entries.some(e => corrections.has(e.id))) return;
+
+      const withStaff = entries.some(e => e.note.staff !== undefined);
+      for (const ins of added) {
+        const at = ins.after ? entries.findIndex(e => e.id === ins.after) + 1 : 0;
+        entries.splice(ins.after && at === 0 ? entries.length : at, 0, {
+          id: ins.id,
+          note: insertedNote(ins, divisions, withStaff || ins.staff > 0),
+        });
+      }
+
+      const kept: RawNoteObject[] = [];
+      let leadDeleted = false;
+      for (const { id, note } of entries) {
+        const c = corrections.get(id);
+        if (c?.deleted) {
+          // The next note of a chord whose first note went takes its place
+          if (note.chord === undefined) leadDeleted = true;
+          continue;
+        }
+        if (c) applyToNote(note, c);
+        if (note.chord === undefined) leadDeleted = false;
+        else if (leadDeleted) {
+          delete note.chord;
+          leadDeleted = false;
+        }
+        kept.push(note);
+      }
+      if (kept.length > 0) m.note = kept;
+      else delete m.note;
+    });
+  });
+  return copy;
+}
+
+// ─── Note patching ───────────────────────────────────────────────────────────
+type RawNoteObject = Record<string, unknown>;
+
+const TYPE_VALUE: Record<NoteType, number> = {
+  whole: 1, half: 2, quarter: 4, eighth: 8, '16th': 16, '32nd': 32, '64th': 64,
+};
+
+/** `<accidental>` written for each alter when a correction changes the pitch. */
+export const ACCIDENTAL_NAME: Record<number, string> = {
+  [-2]: 'flat-flat', [-1]: 'flat', [0]: 'natural', [1]: 'sharp', [2]: 'double-sharp',
+};
+
+/** MusicXML requires the children of `<note>` in this order. */
+const NOTE_CHILD_ORDER = [
+  'grace', 'cue', 'chord', 'pitch', 'unpitched', 'rest', 'duration', 'tie', 'instrument',
+  'footnote', 'level', 'voice', 'type', 'dot', 'accidental', 'time-modification', 'stem',
+  'notehead', 'notehead-text', 'staff', 'beam', 'notations', 'lyric', 'play', 'listen',
+];
+
+/** `<note>` for an added note, with `<duration>` in the measure's divisions. */
+function insertedNote(ins: InsertedNote, divisions: number, withStaff: boolean): RawNoteObject {
+  const quarters = (4 / TYPE_VALUE[ins.noteType]) * dotFactor(ins.dots);
+  const note: RawNoteObject = {
+    ...(ins.isChord && { chord: '' }),
+    ...(ins.isRest
+      ? { rest: '' }
+      : { pitch: { step: ins.step, ...(ins.alter !== 0 && { alter: String(ins.alter) }), octave: String(ins.octave) } }),
+    duration: String(Math.max(1, Math.round(quarters * divisions))),
+    voice: String(ins.voice),
+    type: ins.noteType,
+    ...(ins.dots > 0 && { dot: ins.dots === 1 ? '' : Array<string>(ins.dots).fill('') }),
+    ...(!ins.isRest && ins.accidental && { accidental: ins.accidental }),
+    ...(withStaff && { staff: String(ins.staff + 1) }),
+    '_default-x': String(ins.defaultX),
+  };
+  reorderKeys(note, NOTE_CHILD_ORDER);
+  return note;
+}
+
+function applyToNote(note: RawNoteObject, c: NoteCorrection): void {
+  const fromRest = c.isRest === false && note.rest !== undefined;
+  if (fromRest) {
+    // Rest → note: the key signature supplies the alter, so no <accidental> is needed
+    delete note.rest;
+    note.pitch = {
+      step: c.step ?? 'B',
+      ...(c.alter && { alter: String(c.alter) }),
+      octave: String(c.octave ?? 4),
+    };
+  } else if (c.isRest === true && note.pitch !== undefined) {
+    // Note → rest: drop everything that only applies to a pitched note
+    for (const key of ['pitch', 'accidental', 'tie', 'stem', 'beam']) delete note[key];
+    const notations = note.notations as Record<string, unknown> | undefined;
+    if (notations && typeof notations === 'object') {
+      delete notations.tied;
+      if (Object.keys(notations).length === 0) delete note.notations;
+    }
+    note.rest = '';
+  }
+
+  const pitch = note.pitch as { step?: string; alter?: string; octave?: string } | undefined;
+  if (!fromRest && pitch && (c.step != null || c.octave != null || c.alter != null)) {
+    const oldAlter = Number(pitch.alter ?? 0);
+    const alter = c.alter ?? oldAlter;
+    // Rebuild to keep <step>, <alter>, <octave> in schema order
+    note.pitch = {
+      step: c.step ?? pitch.step,
+      ...(alter !== 0 && { alter: String(alter) }),
+      octave: String(c.octave ?? pitch.octave),
+    };
+    if (alter !== oldAlter || note.accidental !== undefined) {
+      setText(note, 'accidental', ACCIDENTAL_NAME[alter] ?? 'natural');
+    }
+  }
+
+  const oldType = normaliseType(textOf(note.type));
+  const oldDots = toArray(note.dot).length;
+  const newType = c.noteType ?? oldType;
+  const newDots = c.dots ?? oldDots;
+  if (oldType && newType && (newType !== oldType || newDots !== oldDots) && note.duration !== undefined) {
+    // Scale the duration by the type and dot ratios so tuplets are preserved
+    const dur = Number(textOf(note.duration));
+    const ratio = (TYPE_VALUE[oldType] / TYPE_VALUE[newType]) * (dotFactor(newDots) / dotFactor(oldDots));
+    note.duration = String(Math.max(1, Math.round(dur * ratio)));
+  }
+  if (c.noteType) setText(note, 'type', c.noteType);
+  if (c.dots != null) {
+    if (c.dots === 0) delete note.dot;
+    else note.dot = c.dots === 1 ? '' : Array<string>(c.dots).fill('');
+  }
+
+  reorderKeys(note, NOTE_CHILD_ORDER);
+}
+
+/** Length of a note with `dots` augmentation dots, relative to the undotted note. */
+function dotFactor(dots: number): number {
+  return 2 - 1 / 2 ** dots;
+}
+
+/** Set an element's text, keeping its attributes if it has any. */
+function setText(obj: RawNoteObject, key: string, text: string): void {
+  const cur = obj[key];
+  obj[key] = cur && typeof cur === 'object' && !Array.isArray(cur) ? { ...cur, __text: text } : text;
+}
+
+function textOf(v: unknown): string {
+  if (v && typeof v === 'object') return String((v as { __text?: unknown }).__text ?? '');
+  return v == null ? '' : String(v);
+}
+
+function normaliseType(raw: string): NoteType | null {
+  return raw in TYPE_VALUE ? (raw as NoteType) : null;
+}
+
+/** Reorder child elements in place; attributes and unknown elements keep their relative order at the end. */
+function reorderKeys(obj: RawNoteObject, order: string[]): void {
+  const entries = Object.entries(obj);
+  const rank = (k: string) => {
+    const i = order.indexOf(k);
+    return i < 0 ? order.length : i;
+  };
+  entries.sort(([a], [b]) => rank(a) - rank(b));
+  for (const [k] of entries) delete obj[k];
+  for (const [k, v] of entries) obj[k] = v;
+}
+
+// ─── JSON → ordered XML tree ─────────────────────────────────────────────────
+// The parsed JSON groups repeated elements into arrays. Measure children are
+// written in their source order (see `measureContent`), so notes, <backup>,
+// <forward>, directions and mid-measure attributes stay where they were;
+// added notes follow the note they were placed after.
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="no"?>';
+
+function doctype(version: string): string {
+  return `<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML ${version} Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">`;
+}
+
+const builder = new XMLBuilder({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '_',
+  textNodeName: '__text',
+  format: true,
+  indentBy: '  ',
+  suppressEmptyNode: true,
+});
+
+type OrderedNode = Record<string, unknown>;
+
+function toOrdered(name: string, value: unknown): OrderedNode {
+  if (value == null || typeof value !== 'object') {
+    const text = value == null ? '' : String(value);
+    return { [name]: text === '' ? [] : [{ __text: text }] };
+  }
+
+  const obj = value as Record<string, unknown>;
+  const attrs: Record<string, string> = {};
+  const children: OrderedNode[] = [];
+
+  for (const [key, v] of Object.entries(obj)) {
+    if (key === '__text') {
+      children.push({ __text: String(v) });
+    } else if (key === ORDER_KEY) {
+      continue; // source position, recorded by the loader
+    } else if (name === 'note' && key.startsWith('_confidence')) {
+      continue; // OMR confidence annotations are not MusicXML
+    } else if (key.startsWith('_')) {
+      attrs[key] = String(v);
+    } else if (name === 'measure') {
+      continue; // placed below
+    } else {
+      for (const item of toArray(v)) children.push(toOrdered(key, item));
+    }
+  }
+
+  if (name === 'measure') {
+    for (const child of measureContent(obj)) children.push(toOrdered(child.name, child.value));
+  }
+
+  const node: OrderedNode = { [name]: children };
+  if (Object.keys(attrs).length > 0) node[':@'] = attrs;
+  return node;
+}
+
+function toArray<T>(v: T | T[] | undefined | null): T[] {
+  if (v == null) return [];
+  return Array.isArray(v) ? v : [v];
+}
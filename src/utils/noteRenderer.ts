@@ -1,10 +1,17 @@
-import type { NoteData, NoteType, StemDir, CalibrationState, ScoreLayout } from '../types';
+import type {
+  NoteData, NoteType, StemDir, CalibrationState, ScoreLayout, SystemLayout, MeasureInfo, OverlayLayers, Point, ScorePoint,
+} from '../types';
+import { systemTransforms } from './transform';
 
 // ─── Colours ─────────────────────────────────────────────────────────────────
 export const COLOR_ABOVE    = '#2563eb'; // blue-600  – high confidence
 export const COLOR_BELOW    = '#dc2626'; // red-600   – low confidence
 export const COLOR_VERIFIED = '#16a34a'; // green-600 – manually verified/corrected
 
+export const COLOR_STAFF   = 'rgba(20, 184, 166, 0.7)';  // teal-500   – inferred staff lines
+export const COLOR_BARLINE = 'rgba(168, 85, 247, 0.7)';  // purple-500 – measure boundaries
+export const COLOR_SYSTEM  = 'rgba(249, 115, 22, 0.8)';  // orange-500 – system boxes and numbers
+
 function noteColor(note: NoteData, threshold: number): string {
   if (note.status === 'verified' || note.status === 'corrected') return COLOR_VERIFIED;
   return note.confidence >= threshold ? COLOR_ABOVE : COLOR_BELOW;
@@ -41,29 +48,21 @@ function drawHead(
   ctx.restore();
 }
 
-/** Draw a vertical stem. Returns the tip (x,y) for flag attachment. */
+/** Draw a vertical stem from `base` (the head end) to `tip`. */
 function drawStem(
   ctx: CanvasRenderingContext2D,
-  cx: number,
-  cy: number,
+  x: number,
+  base: number,
+  tip: number,
   rx: number,
-  stemDir: StemDir,
-  stemLen: number,
   color: string,
-): [number, number] {
-  if (stemDir === 'none') return [cx, cy];
-
-  const sx = stemDir === 'up' ? cx + rx * 0.85 : cx - rx * 0.85;
-  const sy = stemDir === 'up' ? cy - stemLen : cy + stemLen;
-
+): void {
   ctx.beginPath();
-  ctx.moveTo(sx, cy);
-  ctx.lineTo(sx, sy);
+  ctx.moveTo(x, base);
+  ctx.lineTo(x, tip);
   ctx.strokeStyle = color;
   ctx.lineWidth = Math.max(1, rx * 0.22);
   ctx.stroke();
-
-  return [sx, sy];
 }
 
 /** Draw 1–3 flags at the tip of the stem. */
@@ -107,26 +106,115 @@ function flagsForType(t: NoteType): number {
   return { whole: 0, half: 0, quarter: 0, eighth: 1, '16th': 2, '32nd': 3, '64th': 4 }[t] ?? 0;
 }
 
+// ─── Rests ───────────────────────────────────────────────────────────────────
+/** Draw a rest centred on (cx, cy); `space` is one staff space in pixels. */
+function drawRest(
+  ctx: CanvasRenderingContext2D,
+  cx: number,
+  cy: number,
+  noteType: NoteType,
+  space: number,
+  color: string,
+): void {
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (noteType === 'whole') {
+    // Hangs from the line above the centre
+    ctx.fillRect(cx - space * 0.6, cy - space, space * 1.2, space * 0.5);
+  } else if (noteType === 'half') {
+    // Sits on the centre line
+    ctx.fillRect(cx - space * 0.6, cy - space * 0.5, space * 1.2, space * 0.5);
+  } else if (noteType === 'quarter') {
+    ctx.lineWidth = Math.max(1.2, space * 0.28);
+    ctx.beginPath();
+    ctx.moveTo(cx - space * 0.25, cy - space * 1.5);
+    ctx.lineTo(cx + space * 0.3, cy - space * 0.8);
+    ctx.lineTo(cx - space * 0.2, cy - space * 0.2);
+    ctx.lineTo(cx + space * 0.3, cy + space * 0.5);
+    ctx.quadraticCurveTo(cx - space * 0.5, cy + space * 0.2, cx - space * 0.05, cy + space * 1.2);
+    ctx.stroke();
+  } else {
+    // Eighth and shorter: slanted stem with one dot-hook per flag
+    const flags = flagsForType(noteType);
+    const top = cy - space * 0.8;
+    const bottom = cy + space * (0.6 + (flags - 1) * 0.5);
+    ctx.lineWidth = Math.max(1, space * 0.18);
+    ctx.beginPath();
+    ctx.moveTo(cx + space * 0.45, top);
+    ctx.lineTo(cx - space * 0.05 - (flags - 1) * space * 0.15, bottom);
+    ctx.stroke();
+    for (let f = 0; f < flags; f++) {
+      const hy = top + f * space * 0.75;
+      const hx = cx + space * 0.45 - f * space * 0.15;
+      ctx.beginPath();
+      ctx.arc(hx - space * 0.7, hy + space * 0.05, space * 0.22, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.beginPath();
+      ctx.moveTo(hx - space * 0.7, hy + space * 0.25);
+      ctx.quadraticCurveTo(hx - space * 0.3, hy + space * 0.35, hx, hy);
+      ctx.stroke();
+    }
+  }
+  ctx.restore();
+}
+
+// ─── Augmentation dots ───────────────────────────────────────────────────────
+function drawDots(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  cy: number,
+  dots: number,
+  onLine: boolean,
+  space: number,
+  color: string,
+): void {
+  // Dots on a line move up into the space above
+  const dy = onLine ? cy - space * 0.5 : cy;
+  ctx.fillStyle = color;
+  for (let d = 0; d < dots; d++) {
+    ctx.beginPath();
+    ctx.arc(x + d * space * 0.6, dy, Math.max(1.2, space * 0.16), 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
 // ─── Accidental symbol ───────────────────────────────────────────────────────
+// Text glyphs for the written accidental. The double sharp is drawn as a bold
+// "x" and the double flat as two flats, since the SMuFL-range music symbols
+// are missing from most system fonts.
+const ACCIDENTAL_GLYPH: Record<string, string> = {
+  sharp: '♯',
+  flat: '♭',
+  natural: '♮',
+  'double-sharp': '×',
+  'sharp-sharp': '♯♯',
+  'flat-flat': '♭♭',
+  'double-flat': '♭♭',
+  'natural-sharp': '♮♯',
+  'natural-flat': '♮♭',
+};
+
 function drawAccidental(
   ctx: CanvasRenderingContext2D,
   cx: number,
   cy: number,
-  alter: number,
+  accidental: string | null,
   ry: number,
   color: string,
 ): void {
-  if (alter === 0) return;
+  const sym = accidental ? ACCIDENTAL_GLYPH[accidental] : undefined;
+  if (!sym) return;
   const size = ry * 1.7;
-  const ax = cx - ry * 2.6;
   ctx.save();
   ctx.fillStyle = color;
-  ctx.strokeStyle = color;
   ctx.font = `bold ${size * 2}px serif`;
-  ctx.textAlign = 'center';
+  ctx.textAlign = 'right';
   ctx.textBaseline = 'middle';
-  const sym = alter < 0 ? '♭' : '♯';
-  ctx.fillText(sym, ax, cy);
+  ctx.fillText(sym, cx - ry * 1.9, cy);
   ctx.restore();
 }
 
@@ -168,22 +256,19 @@ function drawLedgerLines(
   }
 }
 
-// ─── Calibration helper ──────────────────────────────────────────────────────
-function applyCalib(raw: number, scale: number, offset: number): number {
-  return raw * scale + offset;
-}
-
-function inverseCalib(px: number, scale: number, offset: number): number {
-  return (px - offset) / scale;
-}
-
 // ─── Default calibration ─────────────────────────────────────────────────────
 export const DEFAULT_CALIBRATION: CalibrationState = {
-  offsetX: 0, offsetY: 0, scaleX: 1, scaleY: 1, noteScale: 1,
+  offsetX: 0, offsetY: 0, scaleX: 1, scaleY: 1, noteScale: 1, rotation: 0, perspective: null, systems: {},
 };
 
 const STAFF_H_TENTHS = 40;
 
+// Each page image shows one score page: tenths are measured from the top of
+// that page (absY runs down the whole page stack) and only its systems are drawn.
+function onPage(systemIndex: number, layout: ScoreLayout, page: number): boolean {
+  return (layout.systems[systemIndex]?.page ?? 0) === page;
+}
+
 // ─── Main draw function ───────────────────────────────────────────────────────
 export function drawAllNotes(
   ctx: CanvasRenderingContext2D,
@@ -192,43 +277,584 @@ export function drawAllNotes(
   canvasW: number,
   canvasH: number,
   layout: ScoreLayout,
+  page: number,
   calibration: CalibrationState = DEFAULT_CALIBRATION,
 ): void {
   const sx = canvasW / layout.pageWidth;
-  const sy = canvasH / layout.totalHeight;
+  const sy = canvasH / layout.pageHeight;
+  const pageTop = page * layout.pageHeight;
 
   const staffPx = STAFF_H_TENTHS * sy * calibration.noteScale;
   const rx = Math.max(3.5, staffPx * 0.22);
   const ry = Math.max(2.5, staffPx * 0.13);
   const stemLen = Math.max(12, staffPx * 0.88);
   const lineSpacing = Math.max(2, staffPx * 0.25);
+  const transformFor = systemTransforms(calibration, layout, canvasW, canvasH);
 
   ctx.clearRect(0, 0, canvasW, canvasH);
 
+  const placed = new Map<NoteData, Point>();
   for (const note of notes) {
-    if (note.isRest) continue;
+    if (!onPage(note.systemIndex, layout, page)) continue;
+    placed.set(note, transformFor(note.systemIndex).forward(note.absX * sx, (note.absY - pageTop) * sy));
+  }
 
+  // ── Heads, rests, accidentals, ledger lines and dots ────────────────────
+  for (const [note, { x: cx, y: cy }] of placed) {
     const color = noteColor(note, threshold);
 
-    const cx = applyCalib(note.absX * sx, calibration.scaleX, calibration.offsetX);
-    const cy = applyCalib(note.absY * sy, calibration.scaleY, calibration.offsetY);
+    if (note.isRest) {
+      drawRest(ctx, cx, cy, note.noteType, lineSpacing, color);
+      if (note.dots > 0) drawDots(ctx, cx + lineSpacing, cy, note.dots, false, lineSpacing, color);
+      continue;
+    }
 
     // Staff boundaries for ledger lines
+    const t = transformFor(note.systemIndex);
     const sys = layout.systems[note.systemIndex];
-    const rawStaffTop = sys?.staffTops[note.partIndex] ?? 0;
-    const staffTopPx = applyCalib(rawStaffTop * sy, calibration.scaleY, calibration.offsetY);
-    const staffBottomPx = applyCalib((rawStaffTop + STAFF_H_TENTHS) * sy, calibration.scaleY, calibration.offsetY);
+    const rawStaffTop = (sys?.staffTops[note.partIndex]?.[note.staff] ?? 0) - pageTop;
+    const staffTopPx = t.forward(note.absX * sx, rawStaffTop * sy).y;
+    const staffBottomPx = t.forward(note.absX * sx, (rawStaffTop + STAFF_H_TENTHS) * sy).y;
 
     drawLedgerLines(ctx, cx, cy, staffTopPx, staffBottomPx, lineSpacing * 2, rx, color);
-    drawAccidental(ctx, cx, cy, note.alter, ry, color);
+    drawAccidental(ctx, cx, cy, note.accidental, ry, color);
 
     const open = note.noteType === 'whole' || note.noteType === 'half';
     drawHead(ctx, cx, cy, rx, ry, color, open);
 
-    const [tx, ty] = drawStem(ctx, cx, cy, rx, note.stemDir, stemLen, color);
-    const fc = flagsForType(note.noteType);
-    if (fc > 0) drawFlags(ctx, tx, ty, note.stemDir, fc, rx, ry, color);
+    if (note.dots > 0) {
+      const onLine = Math.round(note.absY - pageTop - rawStaffTop) % 10 === 0;
+      drawDots(ctx, cx + rx * 2, cy, note.dots, onLine, lineSpacing, color);
+    }
+  }
+
+  // ── Stems, flags and beams: one stem per chord ─────────────────────────
+  const chords = groupChords(notes.filter(n => !n.isRest && placed.has(n)), placed, threshold);
+  const beamed = new Set<Chord>();
+  for (const group of beamGroups(chords)) {
+    drawBeamGroup(ctx, group, rx, stemLen, lineSpacing);
+    group.forEach(c => beamed.add(c));
+  }
+  for (const chord of chords) {
+    if (beamed.has(chord) || chord.dir === 'none') continue;
+    const { x, base, tip } = stemFor(chord, chord.dir, rx, stemLen);
+    drawStem(ctx, x, base, tip, rx, chord.color);
+    const fc = flagsForType(chord.main.noteType);
+    if (fc > 0) drawFlags(ctx, x, tip, chord.dir, fc, rx, ry, chord.color);
+  }
+
+  // ── Ties and slurs ─────────────────────────────────────────────────────
+  for (const [from, to] of tiePairs(notes)) {
+    drawSpanner(ctx, from, to, placed, from.stemDir !== 'down' ? 'below' : 'above', threshold, rx, ry, lineSpacing, 'tie');
+  }
+  for (const { from, to, placement } of slurPairs(notes)) {
+    const side = placement ?? (from.stemDir === 'up' ? 'below' : 'above');
+    drawSpanner(ctx, from, to, placed, side, threshold, rx, ry, lineSpacing, 'slur');
+  }
+}
+
+// ─── Chords and beams ─────────────────────────────────────────────────────────
+/** A note and the `<chord/>` notes stacked on it, sharing one stem. */
+interface Chord {
+  main: NoteData;
+  heads: Point[];
+  dir: StemDir;
+  color: string;
+}
+
+function groupChords(notes: NoteData[], placed: Map<NoteData, Point>, threshold: number): Chord[] {
+  const chords: Chord[] = [];
+  for (const note of notes) {
+    const last = chords[chords.length - 1];
+    if (note.isChord && last && last.main.partIndex === note.partIndex && last.main.measureIndex === note.measureIndex) {
+      last.heads.push(placed.get(note)!);
+      continue;
+    }
+    chords.push({ main: note, heads: [placed.get(note)!], dir: note.stemDir, color: noteColor(note, threshold) });
+  }
+  return chords;
+}
+
+/** Stem from the head farthest from the tip to a standard length past the nearest. */
+function stemFor(chord: Chord, dir: StemDir, rx: number, stemLen: number): { x: number; base: number; tip: number } {
+  const ys = chord.heads.map(h => h.y);
+  const x = chord.heads[0].x + (dir === 'up' ? rx * 0.85 : -rx * 0.85);
+  return dir === 'up'
+    ? { x, base: Math.max(...ys), tip: Math.min(...ys) - stemLen }
+    : { x, base: Math.min(...ys), tip: Math.max(...ys) + stemLen };
+}
+
+/** Runs of chords joined by a primary beam (begin … end) within one voice of a measure. */
+function beamGroups(chords: Chord[]): Chord[][] {
+  const groups: Chord[][] = [];
+  const open = new Map<string, Chord[]>();
+  for (const chord of chords) {
+    const n = chord.main;
+    const beam = n.beams[0];
+    if (!beam || chord.dir === 'none') continue;
+    const key = `${n.partIndex}:${n.measureIndex}:${n.voice}`;
+    if (beam === 'begin') {
+      open.set(key, [chord]);
+    } else if (beam === 'continue') {
+      open.get(key)?.push(chord);
+    } else if (beam === 'end') {
+      const group = open.get(key);
+      open.delete(key);
+      if (group) {
+        group.push(chord);
+        if (group.length > 1) groups.push(group);
+      }
+    }
+  }
+  return groups;
+}
+
+/** Steepest beam drawn, as rise over run. */
+const MAX_BEAM_SLOPE = 0.5;
+
+function drawBeamGroup(ctx: CanvasRenderingContext2D, group: Chord[], rx: number, stemLen: number, space: number): void {
+  // The whole group takes the first chord's stem direction
+  const dir = group[0].dir;
+  const up = dir === 'up';
+  const stems = group.map(c => stemFor(c, dir, rx, stemLen));
+  const first = stems[0];
+  const last = stems[stems.length - 1];
+  const run = last.x - first.x;
+  const slope = run !== 0 ? Math.max(-MAX_BEAM_SLOPE, Math.min(MAX_BEAM_SLOPE, (last.tip - first.tip) / run)) : 0;
+
+  // Straight line through the outer tips, moved out until no stem is shorter than normal
+  const gaps = stems.map(s => s.tip - (first.tip + slope * (s.x - first.x)));
+  const y0 = first.tip + (up ? Math.min(0, ...gaps) : Math.max(0, ...gaps));
+  const beamY = (x: number) => y0 + slope * (x - first.x);
+
+  stems.forEach((s, i) => drawStem(ctx, s.x, s.base, beamY(s.x), rx, group[i].color));
+
+  const thick = space * 0.45;
+  const levelGap = space * 0.75;
+  const levels = Math.max(...group.map(c => c.main.beams.length));
+  const hook = rx * 1.6;
+  for (let level = 0; level < levels; level++) {
+    // Beams stack inwards, towards the note heads
+    const off = (up ? 1 : -1) * level * levelGap;
+    const bar = (x1: number, x2: number, color: string) => {
+      const inward = up ? thick : -thick;
+      ctx.beginPath();
+      ctx.moveTo(x1, beamY(x1) + off);
+      ctx.lineTo(x2, beamY(x2) + off);
+      ctx.lineTo(x2, beamY(x2) + off + inward);
+      ctx.lineTo(x1, beamY(x1) + off + inward);
+      ctx.closePath();
+      ctx.fillStyle = color;
+      ctx.fill();
+    };
+    group.forEach((c, i) => {
+      const b = level === 0 ? 'continue' : c.main.beams[level];
+      const next = group[i + 1];
+      const nb = next && (level === 0 ? 'continue' : next.main.beams[level]);
+      if ((b === 'begin' || b === 'continue') && (nb === 'continue' || nb === 'end')) {
+        bar(stems[i].x, stems[i + 1].x, c.color);
+      } else if (b === 'forward hook') {
+        bar(stems[i].x, stems[i].x + hook, c.color);
+      } else if (b === 'backward hook') {
+        bar(stems[i].x - hook, stems[i].x, c.color);
+      }
+    });
+  }
+}
+
+// ─── Ties and slurs ───────────────────────────────────────────────────────────
+/**
+ * Each tie start paired with the note it ties into: the next note of the same
+ * pitch on the same staff that stops a tie, looked for up to the next measure.
+ * The partner is null when none is found.
+ */
+function tiePairs(notes: NoteData[]): [NoteData, NoteData | null][] {
+  const pairs: [NoteData, NoteData | null][] = [];
+  notes.forEach((n, i) => {
+    if (!n.tieStart || n.isRest) return;
+    let to: NoteData | null = null;
+    for (let j = i + 1; j < notes.length; j++) {
+      const m = notes[j];
+      if (m.partIndex !== n.partIndex || m.measureIndex > n.measureIndex + 1) break;
+      if (m.tieStop && m.staff === n.staff && m.step === n.step && m.octave === n.octave && m.alter === n.alter) {
+        to = m;
+        break;
+      }
+    }
+    pairs.push([n, to]);
+  });
+  return pairs;
+}
+
+/** Slur starts matched to their stops by part and slur number. */
+function slurPairs(notes: NoteData[]): { from: NoteData; to: NoteData | null; placement?: 'above' | 'below' }[] {
+  const pairs: { from: NoteData; to: NoteData | null; placement?: 'above' | 'below' }[] = [];
+  const open = new Map<string, number>(); // key → index in pairs
+  for (const n of notes) {
+    for (const mark of n.slurs) {
+      const key = `${n.partIndex}:${mark.number}`;
+      if (mark.type === 'start') {
+        open.set(key, pairs.length);
+        pairs.push({ from: n, to: null, placement: mark.placement });
+      } else if (mark.type === 'stop') {
+        const i = open.get(key);
+        if (i !== undefined) pairs[i].to = n;
+        open.delete(key);
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * A tie or slur between two notes. When they are on different systems (or the
+ * other end is off this page) each end on this page gets a short stub towards
+ * the system edge instead.
+ */
+function drawSpanner(
+  ctx: CanvasRenderingContext2D,
+  from: NoteData,
+  to: NoteData | null,
+  placed: Map<NoteData, Point>,
+  side: 'above' | 'below',
+  threshold: number,
+  rx: number,
+  ry: number,
+  space: number,
+  kind: 'tie' | 'slur',
+): void {
+  const a = placed.get(from);
+  const b = to ? placed.get(to) : undefined;
+  if (!a && !b) return;
+
+  const dy = (side === 'above' ? -1 : 1) * ry * (kind === 'tie' ? 1.3 : 2);
+  const stub = rx * 5;
+  const start = a && { x: a.x + rx * 1.1, y: a.y + dy };
+  const end = b && { x: b.x - rx * 1.1, y: b.y + dy };
+  const color = noteColor(from, threshold);
+
+  if (start && end && from.systemIndex === to!.systemIndex) {
+    drawCurve(ctx, start, end, side, kind, space, color);
+    return;
+  }
+  if (start) drawCurve(ctx, start, { x: start.x + stub, y: start.y }, side, kind, space, color);
+  if (end) drawCurve(ctx, { x: end.x - stub, y: end.y }, end, side, kind, space, noteColor(to!, threshold));
+}
+
+/** A tapered arc from `a` to `b`, bulging to `side`. */
+function drawCurve(
+  ctx: CanvasRenderingContext2D,
+  a: Point,
+  b: Point,
+  side: 'above' | 'below',
+  kind: 'tie' | 'slur',
+  space: number,
+  color: string,
+): void {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len = Math.hypot(dx, dy);
+  if (len < 1) return;
+
+  const height = kind === 'tie'
+    ? Math.min(space * 0.8, Math.max(space * 0.3, len * 0.15))
+    : Math.min(space * 2.5, Math.max(space * 0.6, len * 0.12));
+  const thick = Math.max(1, space * 0.18);
+  // Unit normal pointing to the chosen side of the chord a→b
+  const sign = side === 'above' ? 1 : -1;
+  const nx = (dy / len) * sign;
+  const ny = (-dx / len) * sign;
+  const ctrl = (t: number, h: number) => ({ x: a.x + dx * t + nx * h, y: a.y + dy * t + ny * h });
+
+  const o1 = ctrl(0.25, height * 1.33);
+  const o2 = ctrl(0.75, height * 1.33);
+  const i1 = ctrl(0.25, (height - thick) * 1.33);
+  const i2 = ctrl(0.75, (height - thick) * 1.33);
+  ctx.beginPath();
+  ctx.moveTo(a.x, a.y);
+  ctx.bezierCurveTo(o1.x, o1.y, o2.x, o2.y, b.x, b.y);
+  ctx.bezierCurveTo(i2.x, i2.y, i1.x, i1.y, a.x, a.y);
+  ctx.fillStyle = color;
+  ctx.fill();
+}
+
+// ─── Layout layers ────────────────────────────────────────────────────────────
+/**
+ * Draw the layout the overlay is built on — staff lines, barlines, system
+ * boxes and measure numbers — underneath whatever is already on the canvas,
+ * so misalignment can be seen against the image.
+ */
+export function drawLayoutLayers(
+  ctx: CanvasRenderingContext2D,
+  layers: OverlayLayers,
+  canvasW: number,
+  canvasH: number,
+  layout: ScoreLayout,
+  page: number,
+  calibration: CalibrationState = DEFAULT_CALIBRATION,
+): void {
+  const sx = canvasW / layout.pageWidth;
+  const sy = canvasH / layout.pageHeight;
+  const pageTop = page * layout.pageHeight;
+  const transformFor = systemTransforms(calibration, layout, canvasW, canvasH);
+  const line = (a: Point, b: Point) => {
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.stroke();
+  };
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.lineWidth = 1;
+
+  layout.systems.forEach((sys, si) => {
+    if (sys.page !== page) return;
+    const measures = layout.measures.filter(m => m.systemIndex === si);
+    if (measures.length === 0) return;
+    const t = transformFor(si);
+    const left = Math.min(...measures.map(m => m.x));
+    const right = Math.max(...measures.map(m => m.x + m.width));
+    const staves = visibleStaves(sys);
+    if (staves.length === 0) return;
+    const tops = staves.map(st => st.top);
+    const at = (x: number, y: number) => t.forward(x * sx, (y - pageTop) * sy);
+
+    if (layers.staffLines) {
+      ctx.strokeStyle = COLOR_STAFF;
+      for (const { top, lines, height } of staves) {
+        const ys = lines > 1 ? Array.from({ length: lines }, (_, k) => top + (k * height) / (lines - 1)) : [top + height / 2];
+        for (const y of ys) line(at(left, y), at(right, y));
+      }
+    }
+
+    if (layers.barlines) {
+      ctx.strokeStyle = COLOR_BARLINE;
+      const xs = [...measures.map(m => m.x), right];
+      for (const x of xs) {
+        for (const { top, height } of staves) line(at(x, top), at(x, top + height));
+      }
+    }
+
+    if (layers.systemBoxes) {
+      const corners = regionCorners(si, left, right, canvasW, canvasH, layout, page, calibration);
+      if (corners) {
+        ctx.strokeStyle = COLOR_SYSTEM;
+        ctx.setLineDash([4, 3]);
+        ctx.beginPath();
+        corners.forEach((c, i) => (i === 0 ? ctx.moveTo(c.x, c.y) : ctx.lineTo(c.x, c.y)));
+        ctx.closePath();
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+    }
+
+    if (layers.measureNumbers) {
+      ctx.fillStyle = COLOR_SYSTEM;
+      ctx.font = `bold ${Math.max(9, STAFF_H_TENTHS * sy * 0.3)}px sans-serif`;
+      ctx.textBaseline = 'bottom';
+      for (const m of measures) {
+        const p = at(m.x + 2, Math.min(...tops) - 6);
+        ctx.fillText(m.label, p.x, p.y);
+      }
+    }
+  });
+  ctx.restore();
+}
+
+// ─── Measure and system boxes ─────────────────────────────────────────────────
+type Box = { x: number; y: number; w: number; h: number };
+
+/** Canvas-pixel box around a measure, spanning every visible staff of its system (axis-aligned). */
+export function measureBounds(
+  measure: MeasureInfo,
+  canvasW: number,
+  canvasH: number,
+  layout: ScoreLayout,
+  page: number,
+  calibration: CalibrationState = DEFAULT_CALIBRATION,
+): Box | null {
+  return regionBounds(measure.systemIndex, measure.x, measure.x + measure.width, canvasW, canvasH, layout, page, calibration);
+}
+
+/** Canvas-pixel box around a whole system (axis-aligned). */
+export function systemBounds(
+  systemIndex: number,
+  canvasW: number,
+  canvasH: number,
+  layout: ScoreLayout,
+  page: number,
+  calibration: CalibrationState = DEFAULT_CALIBRATION,
+): Box | null {
+  const measures = layout.measures.filter(m => m.systemIndex === systemIndex);
+  if (measures.length === 0) return null;
+  const left = Math.min(...measures.map(m => m.x));
+  const right = Math.max(...measures.map(m => m.x + m.width));
+  return regionBounds(systemIndex, left, right, canvasW, canvasH, layout, page, calibration);
+}
+
+/** The system under a canvas point on this page, if any. */
+export function findSystemAt(
+  px: number,
+  py: number,
+  canvasW: number,
+  canvasH: number,
+  layout: ScoreLayout,
+  page: number,
+  calibration: CalibrationState = DEFAULT_CALIBRATION,
+): number | null {
+  for (let si = 0; si < layout.systems.length; si++) {
+    const box = systemBounds(si, canvasW, canvasH, layout, page, calibration);
+    if (box && px >= box.x && px <= box.x + box.w && py >= box.y && py <= box.y + box.h) return si;
   }
+  return null;
+}
+
+/** Score position (tenths, `y` down the page stack) under a canvas point, in the system there. */
+export function scorePointAt(
+  px: number,
+  py: number,
+  canvasW: number,
+  canvasH: number,
+  layout: ScoreLayout,
+  page: number,
+  calibration: CalibrationState = DEFAULT_CALIBRATION,
+): ScorePoint | null {
+  const systemIndex = findSystemAt(px, py, canvasW, canvasH, layout, page, calibration);
+  if (systemIndex === null) return null;
+  return scorePointIn(systemIndex, px, py, canvasW, canvasH, layout, page, calibration);
+}
+
+/** Score position under a canvas point, read with a given system's transform (e.g. while dragging its note). */
+export function scorePointIn(
+  systemIndex: number,
+  px: number,
+  py: number,
+  canvasW: number,
+  canvasH: number,
+  layout: ScoreLayout,
+  page: number,
+  calibration: CalibrationState = DEFAULT_CALIBRATION,
+): ScorePoint {
+  const p = systemTransforms(calibration, layout, canvasW, canvasH)(systemIndex).inverse(px, py);
+  return {
+    systemIndex,
+    x: p.x * (layout.pageWidth / canvasW),
+    y: p.y * (layout.pageHeight / canvasH) + page * layout.pageHeight,
+  };
+}
+
+/** Box from `left` to `right` (tenths) over the visible staves of a system, padded by half a staff. */
+function regionBounds(
+  systemIndex: number,
+  left: number,
+  right: number,
+  canvasW: number,
+  canvasH: number,
+  layout: ScoreLayout,
+  page: number,
+  calibration: CalibrationState,
+): Box | null {
+  const corners = regionCorners(systemIndex, left, right, canvasW, canvasH, layout, page, calibration);
+  if (!corners) return null;
+  const xs = corners.map(c => c.x);
+  const ys = corners.map(c => c.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+/** The four transformed corners of that region: TL, TR, BR, BL. */
+function regionCorners(
+  systemIndex: number,
+  left: number,
+  right: number,
+  canvasW: number,
+  canvasH: number,
+  layout: ScoreLayout,
+  page: number,
+  calibration: CalibrationState,
+): Point[] | null {
+  const sys = layout.systems[systemIndex];
+  if (!sys || sys.page !== page) return null;
+  const staves = visibleStaves(sys);
+  if (staves.length === 0) return null;
+
+  const sx = canvasW / layout.pageWidth;
+  const sy = canvasH / layout.pageHeight;
+  const pageTop = page * layout.pageHeight;
+  const pad = STAFF_H_TENTHS / 2;
+  const t = systemTransforms(calibration, layout, canvasW, canvasH)(systemIndex);
+  const x0 = left * sx;
+  const x1 = right * sx;
+  const top = (Math.min(...staves.map(st => st.top)) - pageTop - pad) * sy;
+  const bottom = (Math.max(...staves.map(st => st.top + st.height)) - pageTop + pad) * sy;
+  return [t.forward(x0, top), t.forward(x1, top), t.forward(x1, bottom), t.forward(x0, bottom)];
+}
+
+/** A system's shown staves with their line counts and heights, top to bottom in part order. */
+function visibleStaves(sys: SystemLayout): { top: number; lines: number; height: number }[] {
+  return sys.staffTops.flatMap((tops, p) => tops.flatMap((top, s) => sys.hiddenStaves[p]?.[s] ? [] : [{
+    top,
+    lines: sys.staffLines[p]?.[s] ?? 5,
+    height: sys.staffHeights[p]?.[s] ?? STAFF_H_TENTHS,
+  }]));
+}
+
+export function drawMeasureHighlight(ctx: CanvasRenderingContext2D, box: Box): void {
+  ctx.save();
+  ctx.fillStyle = 'rgba(250, 204, 21, 0.15)';
+  ctx.strokeStyle = 'rgba(234, 179, 8, 0.8)';
+  ctx.lineWidth = 1.5;
+  ctx.fillRect(box.x, box.y, box.w, box.h);
+  ctx.strokeRect(box.x, box.y, box.w, box.h);
+  ctx.restore();
+}
+
+/** Dashed outline around the system being calibrated. */
+export function drawSystemOutline(ctx: CanvasRenderingContext2D, box: Box): void {
+  ctx.save();
+  ctx.strokeStyle = 'rgba(96, 165, 250, 0.9)';
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([6, 4]);
+  ctx.strokeRect(box.x, box.y, box.w, box.h);
+  ctx.restore();
+}
+
+// ─── Note highlight ───────────────────────────────────────────────────────────
+/** Canvas position of a note's head, or null if it is not on this page. */
+export function notePosition(
+  note: NoteData,
+  canvasW: number,
+  canvasH: number,
+  layout: ScoreLayout,
+  page: number,
+  calibration: CalibrationState = DEFAULT_CALIBRATION,
+): Point | null {
+  if (!onPage(note.systemIndex, layout, page)) return null;
+  const t = systemTransforms(calibration, layout, canvasW, canvasH)(note.systemIndex);
+  return t.forward(note.absX * (canvasW / layout.pageWidth), (note.absY - page * layout.pageHeight) * (canvasH / layout.pageHeight));
+}
+
+/** Ring around a hovered (blue) or selected (amber) note head. */
+export function drawNoteRing(
+  ctx: CanvasRenderingContext2D,
+  p: Point,
+  canvasH: number,
+  layout: ScoreLayout,
+  calibration: CalibrationState,
+  kind: 'hover' | 'selected',
+): void {
+  const r = Math.max(7, STAFF_H_TENTHS * (canvasH / layout.pageHeight) * calibration.noteScale * 0.4);
+  ctx.save();
+  ctx.strokeStyle = kind === 'selected' ? 'rgba(245, 158, 11, 0.95)' : 'rgba(56, 189, 248, 0.9)';
+  ctx.fillStyle = kind === 'selected' ? 'rgba(245, 158, 11, 0.15)' : 'rgba(56, 189, 248, 0.12)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(p.x, p.y, r, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
 }
 
 // ─── Hit-test ────────────────────────────────────────────────────────────────
@@ -239,22 +865,25 @@ export function findNoteAt(
   canvasW: number,
   canvasH: number,
   layout: ScoreLayout,
+  page: number,
   calibration: CalibrationState = DEFAULT_CALIBRATION,
   radius = 18,
 ): NoteData | null {
   const sx = canvasW / layout.pageWidth;
-  const sy = canvasH / layout.totalHeight;
+  const sy = canvasH / layout.pageHeight;
+  const pageTop = page * layout.pageHeight;
 
-  const rawPx = inverseCalib(px, calibration.scaleX, calibration.offsetX);
-  const rawPy = inverseCalib(py, calibration.scaleY, calibration.offsetY);
+  const transformFor = systemTransforms(calibration, layout, canvasW, canvasH);
 
   let best: NoteData | null = null;
   let bestDist = radius * radius;
 
   for (const note of notes) {
-    if (note.isRest) continue;
-    const dx = note.absX * sx - rawPx;
-    const dy = note.absY * sy - rawPy;
+    if (!onPage(note.systemIndex, layout, page)) continue;
+    // Compared on screen, since each system has its own transform
+    const p = transformFor(note.systemIndex).forward(note.absX * sx, (note.absY - pageTop) * sy);
+    const dx = p.x - px;
+    const dy = p.y - py;
     const d2 = dx * dx + dy * dy;
     if (d2 < bestDist) {
       bestDist = d2;
@@ -263,3 +892,19 @@ export function findNoteAt(
   }
   return best;
 }
+
+/** Notes on this page whose heads fall inside a canvas box, e.g. a rubber band. */
+export function findNotesIn(
+  notes: NoteData[],
+  box: Box,
+  canvasW: number,
+  canvasH: number,
+  layout: ScoreLayout,
+  page: number,
+  calibration: CalibrationState = DEFAULT_CALIBRATION,
+): NoteData[] {
+  return notes.filter(note => {
+    const p = notePosition(note, canvasW, canvasH, layout, page, calibration);
+    return p && p.x >= box.x && p.x <= box.x + box.w && p.y >= box.y && p.y <= box.y + box.h;
+  });
+}
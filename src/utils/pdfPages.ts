@@ -0,0 +1,46 @@
+// ─── PDF → page images ───────────────────────────────────────────────────────
+// Multi-page PDFs are rendered locally, one PNG per page, so each page can be
+// sent to the OMR API and shown under its own overlay like an uploaded image.
+// pdf.js is large, so it is only loaded when a PDF is actually uploaded.
+
+/** Render scale: PDF points → pixels (2 ≈ 144 dpi, plenty for OMR). */
+const RENDER_SCALE = 2;
+
+export function isPdfFile(file: File): boolean {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+}
+
+/** Render every page of a PDF to a PNG file named `<name>-p<n>.png`. */
+export async function renderPdfPages(file: File): Promise<File[]> {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const base = file.name.replace(/\.pdf$/i, '');
+  const pages: File[] = [];
+  try {
+    for (let i = 1; i <= doc.numPages; i++) {
+      const page = await doc.getPage(i);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const ctx = canvas.getContext('2d')!;
+      // Scans are often transparent PDFs; OMR expects a white page
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: ctx, viewport }).promise;
+
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error(`Could not render page ${i} of ${file.name}`);
+      pages.push(new File([blob], `${base}-p${i}.png`, { type: 'image/png' }));
+      page.cleanup();
+    }
+  } finally {
+    await doc.destroy();
+  }
+  return pages;
+}
@@ -0,0 +1,56 @@
+import { isReviewed } from './review';
+import type { NoteData, ScoreLayout } from '../types';
+
+// ─── Review progress ─────────────────────────────────────────────────────────
+// Counts of reviewed (verified or corrected) notes for the whole score, each
+// part, each system and each measure of each part. Rests are left out, as in
+// the threshold counts and the review queue.
+
+export interface Tally {
+  total: number;
+  reviewed: number;
+}
+
+export interface MeasureProgress extends Tally {
+  /** Lowest confidence among the notes still to review; null once none are left. */
+  lowest: number | null;
+}
+
+export interface ReviewProgress {
+  overall: Tally;
+  /** By part index. */
+  parts: Tally[];
+  /** By system index. */
+  systems: Tally[];
+  /** By part index, then measure index. */
+  measures: MeasureProgress[][];
+}
+
+export function reviewProgress(notes: NoteData[], numParts: number, layout: ScoreLayout): ReviewProgress {
+  const tally = (): Tally => ({ total: 0, reviewed: 0 });
+  const progress: ReviewProgress = {
+    overall: tally(),
+    parts: Array.from({ length: numParts }, tally),
+    systems: layout.systems.map(tally),
+    measures: Array.from({ length: numParts }, () =>
+      layout.measures.map((): MeasureProgress => ({ ...tally(), lowest: null }))),
+  };
+
+  for (const n of notes) {
+    if (n.isRest) continue;
+    const done = isReviewed(n);
+    const measure = progress.measures[n.partIndex]?.[n.measureIndex];
+    for (const t of [progress.overall, progress.parts[n.partIndex], progress.systems[n.systemIndex], measure]) {
+      if (!t) continue;
+      t.total++;
+      if (done) t.reviewed++;
+    }
+    if (measure && !done) measure.lowest = Math.min(measure.lowest ?? 1, n.confidence);
+  }
+  return progress;
+}
+
+/** Whole percent reviewed, rounded down so that 100 % means finished. */
+export function percentReviewed(t: Tally): number {
+  return t.total > 0 ? Math.floor((t.reviewed / t.total) * 100) : 100;
+}
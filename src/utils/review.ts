@@ -0,0 +1,97 @@
+import type { NoteCorrection, NoteData, NoteType } from '../types';
+import { keySignatureAlter } from './scoreEdits';
+
+// ─── Review queue ────────────────────────────────────────────────────────────
+// Review mode walks the notes the OMR engine was unsure of in reading order:
+// system by system, top part first, left to right. Rests are left out, as
+// they are from the threshold statistics.
+
+/** Notes below `threshold`, in reading order. Reviewed notes stay in place so the order never shifts. */
+export function reviewQueue(notes: NoteData[], threshold: number): NoteData[] {
+  return notes
+    .filter(n => !n.isRest && n.confidence < threshold)
+    .sort((a, b) =>
+      a.systemIndex - b.systemIndex
+      || a.partIndex - b.partIndex
+      || a.absX - b.absX
+      || a.staff - b.staff
+      || a.absY - b.absY);
+}
+
+export function isReviewed(note: NoteData): boolean {
+  return note.status === 'verified' || note.status === 'corrected';
+}
+
+/** Next unreviewed note after position `from` (−1 to search from the start), or −1 if none. */
+export function nextUnreviewed(queue: NoteData[], from: number): number {
+  for (let i = from + 1; i < queue.length; i++) if (!isReviewed(queue[i])) return i;
+  return -1;
+}
+
+// ─── Quick edits ─────────────────────────────────────────────────────────────
+// Each returns the correction to store for a note, building on any earlier
+// correction so that successive keystrokes accumulate. Pitch edits take the
+// key signature in force at the note (`fifths`), so a note moved to a new
+// step, or cleared of an accidental, reads as the key has it.
+
+const STEPS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const DURATIONS: NoteType[] = ['whole', 'half', 'quarter', 'eighth', '16th', '32nd', '64th'];
+
+/**
+ * Move the pitch by `delta` diatonic steps (7 = an octave). A note landing on
+ * a new step takes that step's alter from the key; one moved by whole
+ * octaves keeps its own.
+ */
+export function stepPitch(note: NoteData, prev: NoteCorrection | undefined, delta: number, fifths: number): NoteCorrection {
+  const p = note.octave * 7 + STEPS.indexOf(note.step) + delta;
+  const octave = Math.floor(p / 7);
+  const step = STEPS[p - octave * 7];
+  if (delta % 7 === 0) return { ...prev, step, octave, status: 'corrected' };
+  return { ...prev, step, octave, alter: keySignatureAlter(step, fifths), status: 'corrected' };
+}
+
+/**
+ * Set the alter. If the note already has it, go back to the key's alter for
+ * the step, or to natural when that is the key's alter.
+ */
+export function toggleAlter(note: NoteData, prev: NoteCorrection | undefined, alter: number, fifths: number): NoteCorrection {
+  const inKey = keySignatureAlter(note.step, fifths);
+  const next = note.alter !== alter ? alter : inKey !== alter ? inKey : 0;
+  return { ...prev, alter: next, status: 'corrected' };
+}
+
+/** One duration longer (−1) or shorter (+1), stopping at whole and 64th notes. */
+export function stepDuration(note: NoteData, prev: NoteCorrection | undefined, delta: number): NoteCorrection {
+  const i = Math.max(0, Math.min(DURATIONS.length - 1, DURATIONS.indexOf(note.noteType) + delta));
+  return { ...prev, noteType: DURATIONS[i], status: 'corrected' };
+}
+
+/** Cycle augmentation dots: none → one → two → none. */
+export function cycleDots(note: NoteData, prev: NoteCorrection | undefined): NoteCorrection {
+  return { ...prev, dots: (note.dots + 1) % 3, status: 'corrected' };
+}
+
+/** Set the alter outright (batch edits apply the same accidental to every note). */
+export function setAlter(_note: NoteData, prev: NoteCorrection | undefined, alter: number): NoteCorrection {
+  return { ...prev, alter, status: 'corrected' };
+}
+
+export function setDuration(_note: NoteData, prev: NoteCorrection | undefined, noteType: NoteType): NoteCorrection {
+  return { ...prev, noteType, status: 'corrected' };
+}
+
+// ─── Batch scope ─────────────────────────────────────────────────────────────
+
+/** A bar across all parts, a system, or a whole part. */
+export type BatchScope = 'measure' | 'system' | 'part';
+
+/**
+ * Unreviewed notes at or above the threshold that share a measure, system or
+ * part with any of `around` — the ones a reviewer can sign off in one go.
+ */
+export function confidentNotesIn(notes: NoteData[], around: NoteData[], scope: BatchScope, threshold: number): NoteData[] {
+  const key = (n: NoteData) =>
+    scope === 'measure' ? n.measureIndex : scope === 'system' ? n.systemIndex : n.partIndex;
+  const keys = new Set(around.map(key));
+  return notes.filter(n => !n.isRest && !isReviewed(n) && n.confidence >= threshold && keys.has(key(n)));
+}
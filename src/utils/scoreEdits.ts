@@ -0,0 +1,434 @@
+import type {
+  ClefInfo, InsertedNote, NoteCorrection, NoteData, NoteEdits, NoteType, PartInfo, ScoreLayout, ScorePoint, StemDir,
+} from '../types';
+import { ACCIDENTAL_NAME } from './musicXmlWriter';
+import { attributesAt } from './scoreParser';
+import { pitchToYOffset, yOffsetToPitch } from './clef';
+
+// ─── Structural edits ────────────────────────────────────────────────────────
+// Besides patching a note (NoteCorrection), the reviewer can delete it, turn
+// it into a rest or back, and add notes the OMR engine missed. Parsed notes
+// keep their ids throughout; added ones get ids of their own and are slotted
+// into the measure after the note they follow, so both views and the
+// exporter see the same order.
+
+export const NO_EDITS: NoteEdits = { corrections: new Map(), insertions: [] };
+
+const STAFF_H = 40;
+
+/** The notes as edited: corrections applied, deletions dropped, insertions in place. */
+export function applyEdits(notes: NoteData[], edits: NoteEdits, layout: ScoreLayout, parts: PartInfo[]): NoteData[] {
+  const { corrections, insertions } = edits;
+  if (corrections.size === 0 && insertions.length === 0) return notes;
+
+  // Insertions go into their measure's list, which keeps source order
+  const byMeasure = new Map<string, NoteData[]>();
+  const key = (p: number, m: number) => `${p}:${m}`;
+  for (const n of notes) {
+    const k = key(n.partIndex, n.measureIndex);
+    if (!byMeasure.has(k)) byMeasure.set(k, []);
+    byMeasure.get(k)!.push(n);
+  }
+  for (const ins of insertions) {
+    const list = byMeasure.get(key(ins.partIndex, ins.measureIndex)) ?? [];
+    byMeasure.set(key(ins.partIndex, ins.measureIndex), list);
+    const at = ins.after ? list.findIndex(n => n.id === ins.after) + 1 : 0;
+    list.splice(ins.after && at === 0 ? list.length : at, 0, insertedNoteData(ins, layout, parts));
+  }
+  const ordered = [...byMeasure.entries()]
+    .map(([k, list]) => ({ p: Number(k.split(':')[0]), m: Number(k.split(':')[1]), list }))
+    .sort((a, b) => a.p - b.p || a.m - b.m)
+    .flatMap(g => g.list);
+
+  const out: NoteData[] = [];
+  let leadDeleted = false;
+  for (const n of ordered) {
+    const c = corrections.get(n.id);
+    if (c?.deleted) {
+      // The next note of a chord whose first note went takes its place
+      if (!n.isChord) leadDeleted = true;
+      continue;
+    }
+    const note = c ? applyCorrection(n, c, parts) : n;
+    if (!note.isChord) leadDeleted = false;
+    if (note.isChord && leadDeleted) {
+      out.push({ ...note, isChord: false });
+      leadDeleted = false;
+    } else {
+      out.push(note);
+    }
+  }
+  return out;
+}
+
+function applyCorrection(n: NoteData, c: NoteCorrection, parts: PartInfo[]): NoteData {
+  const isRest = c.isRest ?? n.isRest;
+  const noteType = c.noteType ?? n.noteType;
+  const dots = c.dots ?? n.dots;
+  if (isRest) {
+    return {
+      ...n, isRest, noteType, dots, alter: 0, accidental: null, stemDir: 'none',
+      tieStart: false, tieStop: false, beams: n.isRest ? n.beams : [], status: c.status,
+    };
+  }
+
+  const alter = c.alter ?? n.alter;
+  let accidental: string | null;
+  if (n.isRest) {
+    accidental = null; // a rest turned into a note takes its alter from the key signature
+  } else {
+    // Same rule as the exporter: a changed pitch shows its accidental if the alter changed or one was printed
+    const repitched = c.step != null || c.octave != null || c.alter != null;
+    accidental = repitched && (alter !== n.alter || n.accidental !== null)
+      ? ACCIDENTAL_NAME[alter] ?? 'natural'
+      : n.accidental;
+  }
+  const step = c.step ?? n.step;
+  const octave = c.octave ?? n.octave;
+  // A new pitch moves the head to its staff position, so it can be checked against the image
+  const clef = !n.isRest ? clefOf(n, parts) : undefined;
+  const absY = clef ? n.absY + pitchToYOffset(step, octave, clef) - pitchToYOffset(n.step, n.octave, clef) : n.absY;
+  return {
+    ...n,
+    step,
+    octave,
+    absY,
+    alter,
+    accidental,
+    noteType,
+    dots,
+    isRest,
+    ...(n.isRest && { stemDir: defaultStem(n, step, octave, parts) }),
+    status: c.status,
+  };
+}
+
+type StaffRef = Pick<NoteData, 'partIndex' | 'staff' | 'measureIndex' | 'absX'>;
+
+/** Clef in force at the note, which may change part-way through the measure. */
+function clefOf(n: StaffRef, parts: PartInfo[]): ClefInfo | undefined {
+  const part = parts[n.partIndex];
+  return part && attributesAt(part, n.measureIndex, n.absX).clefs[n.staff];
+}
+
+/** Stem direction by the usual rule: up below the middle line, down from it. */
+function defaultStem(n: StaffRef, step: string, octave: number, parts: PartInfo[]): StemDir {
+  const clef = clefOf(n, parts);
+  return !clef || pitchToYOffset(step, octave, clef) > STAFF_H / 2 ? 'up' : 'down';
+}
+
+/** Display data for an added note, placed like a parsed one. */
+export function insertedNoteData(ins: InsertedNote, layout: ScoreLayout, parts: PartInfo[]): NoteData {
+  const measure = layout.measures[ins.measureIndex];
+  const systemIndex = measure?.systemIndex ?? 0;
+  const staffTop = layout.systems[systemIndex]?.staffTops[ins.partIndex]?.[ins.staff] ?? 0;
+  const absX = (measure?.x ?? layout.margins.left) + ins.defaultX;
+  const clef = clefOf({ ...ins, absX }, parts);
+  const yOffset = ins.isRest || !clef
+    ? STAFF_H / 2
+    : pitchToYOffset(ins.step, ins.octave, clef);
+
+  return {
+    id: ins.id,
+    step: ins.step,
+    octave: ins.octave,
+    alter: ins.isRest ? 0 : ins.alter,
+    accidental: ins.isRest ? null : ins.accidental,
+    noteType: ins.noteType,
+    dots: ins.dots,
+    duration: 0,
+    voice: ins.voice,
+    staff: ins.staff,
+    isChord: ins.isChord,
+    tieStart: false,
+    tieStop: false,
+    beams: [],
+    slurs: [],
+    absX,
+    absY: staffTop + yOffset,
+    stemDir: ins.isRest || ins.noteType === 'whole' ? 'none' : defaultStem({ ...ins, absX }, ins.step, ins.octave, parts),
+    confidence: 1,
+    confidenceSource: 'manual',
+    partIndex: ins.partIndex,
+    measureNum: measure?.number ?? String(ins.measureIndex + 1),
+    measureIndex: ins.measureIndex,
+    systemIndex,
+    isRest: ins.isRest,
+    status: 'corrected',
+  };
+}
+
+// ─── Adding a note where the reviewer clicked ────────────────────────────────
+
+/** Clicks further than this above or below a staff (about four ledger lines) are not on it. */
+const MAX_STAFF_REACH = 40;
+/** A click this close to an existing note head's x adds to its chord. */
+const CHORD_SNAP = 6;
+
+const SHARP_ORDER = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+
+/** Alter the key signature gives a step: +1 for the first `fifths` sharps, −1 for the first −`fifths` flats. */
+export function keySignatureAlter(step: string, fifths: number): number {
+  if (fifths > 0) return SHARP_ORDER.indexOf(step) < fifths ? 1 : 0;
+  if (fifths < 0) return 6 - SHARP_ORDER.indexOf(step) < -fifths ? -1 : 0;
+  return 0;
+}
+
+/**
+ * A quarter note at `point`: on the nearest staff, in the measure under it,
+ * at the pitch of that staff position with the key signature's alter.
+ * Lands in the chord of a note head directly above or below, otherwise in
+ * the voice of the nearest note on the staff. Null if the point is not on a
+ * staff inside a measure.
+ */
+export function placeNote(
+  point: ScorePoint,
+  notes: NoteData[],
+  edits: NoteEdits,
+  layout: ScoreLayout,
+  parts: PartInfo[],
+): InsertedNote | null {
+  const sys = layout.systems[point.systemIndex];
+  const measure = layout.measures.find(m =>
+    m.systemIndex === point.systemIndex && point.x >= m.x && point.x < m.x + m.width);
+  if (!sys || !measure) return null;
+
+  // Nearest visible staff, by distance outside its lines
+  let target = { partIndex: -1, staff: 0, top: 0 };
+  let bestDist = Infinity;
+  sys.staffTops.forEach((tops, p) => tops.forEach((top, s) => {
+    if (sys.hiddenStaves[p]?.[s]) return;
+    const d = Math.max(0, top - point.y, point.y - (top + STAFF_H));
+    if (d < bestDist) {
+      bestDist = d;
+      target = { partIndex: p, staff: s, top };
+    }
+  }));
+  const { partIndex, staff, top } = target;
+  if (bestDist > MAX_STAFF_REACH || !parts[partIndex]) return null;
+
+  const attrs = attributesAt(parts[partIndex], measure.index, point.x);
+  const { step, octave } = yOffsetToPitch(point.y - top, attrs.clefs[staff]);
+  const base = {
+    id: `p${partIndex}-m${measure.index}-x${edits.insertions.length}`,
+    partIndex,
+    measureIndex: measure.index,
+    staff,
+    step,
+    octave,
+    alter: keySignatureAlter(step, attrs.key.fifths),
+    accidental: null,
+    isRest: false,
+    defaultX: Math.round(point.x - measure.x),
+  };
+
+  const onStaff = notes.filter(n => n.partIndex === partIndex && n.measureIndex === measure.index && n.staff === staff);
+  const chordOf = onStaff.find(n => !n.isRest && Math.abs(n.absX - point.x) <= CHORD_SNAP);
+  if (chordOf) {
+    const group = chordGroupOf(chordOf, notes);
+    return {
+      ...base,
+      voice: chordOf.voice,
+      after: group[group.length - 1].id,
+      isChord: true,
+      noteType: chordOf.noteType,
+      dots: chordOf.dots,
+      defaultX: Math.round(group[0].absX - measure.x),
+    };
+  }
+
+  const nearest = onStaff.reduce<NoteData | null>((best, n) =>
+    !best || Math.abs(n.absX - point.x) < Math.abs(best.absX - point.x) ? n : best, null);
+  // MusicXML convention: voices 1–4 on the upper staff, 5–8 on the lower
+  const voice = nearest?.voice ?? staff * 4 + 1;
+  const before = onStaff.filter(n => n.voice === voice && n.absX <= point.x);
+  return {
+    ...base,
+    voice,
+    after: before.length > 0 ? before[before.length - 1].id : null,
+    isChord: false,
+    noteType: 'quarter',
+    dots: 0,
+  };
+}
+
+/**
+ * Pitch at height `y` (tenths down the page stack) on a note's staff: the
+ * nearest staff position, read in the staff's clef, with the alter the key
+ * signature gives that step. Null for rests.
+ */
+export function pitchAtY(
+  note: NoteData,
+  y: number,
+  layout: ScoreLayout,
+  parts: PartInfo[],
+): { step: string; octave: number; alter: number } | null {
+  const part = parts[note.partIndex];
+  const top = layout.systems[note.systemIndex]?.staffTops[note.partIndex]?.[note.staff];
+  if (note.isRest || !part || top == null) return null;
+  const attrs = attributesAt(part, note.measureIndex, note.absX);
+  const { step, octave } = yOffsetToPitch(y - top, attrs.clefs[note.staff]);
+  return { step, octave, alter: keySignatureAlter(step, attrs.key.fifths) };
+}
+
+export function insertNote(edits: NoteEdits, ins: InsertedNote): NoteEdits {
+  return { ...edits, insertions: [...edits.insertions, ins] };
+}
+
+// ─── Deleting, note ↔ rest, split and merge ──────────────────────────────────
+
+function withCorrections(edits: NoteEdits, changes: [string, NoteCorrection][]): NoteEdits {
+  const corrections = new Map(edits.corrections);
+  for (const [id, c] of changes) corrections.set(id, c);
+  return { ...edits, corrections };
+}
+
+/** Apply a quick edit to each of `notes`, building on their earlier corrections. */
+export function correctAll(
+  edits: NoteEdits,
+  notes: NoteData[],
+  edit: (note: NoteData, prev: NoteCorrection | undefined) => NoteCorrection,
+): NoteEdits {
+  return withCorrections(edits, notes.map(n => [n.id, edit(n, edits.corrections.get(n.id))]));
+}
+
+/** Key signature in force at the note, in fifths. */
+export function keyFifthsOf(note: NoteData, parts: PartInfo[]): number {
+  const part = parts[note.partIndex];
+  return part ? attributesAt(part, note.measureIndex, note.absX).key.fifths : 0;
+}
+
+/** Alter the key signature in force gives the note's step. */
+export function keyAlterOf(note: NoteData, parts: PartInfo[]): number {
+  return keySignatureAlter(note.step, keyFifthsOf(note, parts));
+}
+
+export function deleteNote(edits: NoteEdits, note: NoteData): NoteEdits {
+  return withCorrections(edits, [[note.id, { ...edits.corrections.get(note.id), deleted: true, status: 'corrected' }]]);
+}
+
+/** The note and the other notes of its chord, lead first. */
+export function chordGroupOf(note: NoteData, notes: NoteData[]): NoteData[] {
+  const i = notes.indexOf(note);
+  if (i < 0) return [note];
+  let start = i;
+  while (start > 0 && notes[start].isChord && sameVoice(notes[start - 1], note)) start--;
+  let end = i + 1;
+  while (end < notes.length && notes[end].isChord && sameVoice(notes[end], note)) end++;
+  return notes.slice(start, end);
+}
+
+function sameVoice(a: NoteData, b: NoteData): boolean {
+  return a.partIndex === b.partIndex && a.measureIndex === b.measureIndex && a.voice === b.voice && a.staff === b.staff;
+}
+
+/**
+ * Turn a lone note into a rest, or a rest into a note at the pitch of its
+ * staff position. Null for chord notes, which would leave a rest in a chord.
+ */
+export function toggleRest(edits: NoteEdits, note: NoteData, notes: NoteData[], layout: ScoreLayout, parts: PartInfo[]): NoteEdits | null {
+  if (chordGroupOf(note, notes).length > 1) return null;
+  const prev = edits.corrections.get(note.id);
+  if (!note.isRest) return withCorrections(edits, [[note.id, { ...prev, isRest: true, status: 'corrected' }]]);
+
+  const part = parts[note.partIndex];
+  const top = layout.systems[note.systemIndex]?.staffTops[note.partIndex]?.[note.staff];
+  if (!part || top == null) return null;
+  const attrs = attributesAt(part, note.measureIndex, note.absX);
+  const { step, octave } = yOffsetToPitch(note.absY - top, attrs.clefs[note.staff]);
+  const alter = keySignatureAlter(step, attrs.key.fifths);
+  return withCorrections(edits, [[note.id, { ...prev, isRest: false, step, octave, alter, status: 'corrected' }]]);
+}
+
+// Durations in 64th notes
+const TYPE_64THS: Record<NoteType, number> = {
+  whole: 64, half: 32, quarter: 16, eighth: 8, '16th': 4, '32nd': 2, '64th': 1,
+};
+const TYPES = Object.keys(TYPE_64THS) as NoteType[];
+
+function length64(type: NoteType, dots: number): number {
+  return TYPE_64THS[type] * (2 - 1 / 2 ** dots);
+}
+
+/** Type and dots (up to two) of a length in 64ths, if a single note can have it. */
+function typeOfLength(len: number): { noteType: NoteType; dots: number } | null {
+  for (const noteType of TYPES) {
+    for (let dots = 0; dots <= 2; dots++) {
+      if (length64(noteType, dots) === len) return { noteType, dots };
+    }
+  }
+  return null;
+}
+
+/**
+ * The two parts of a split: an undotted note halves, a dotted one gives up
+ * its last dot (a dotted quarter becomes a quarter and an eighth).
+ */
+function splitLengths(type: NoteType, dots: number): [{ noteType: NoteType; dots: number }, NoteType] | null {
+  const i = TYPES.indexOf(type);
+  if (dots === 0) return i + 1 < TYPES.length ? [{ noteType: TYPES[i + 1], dots: 0 }, TYPES[i + 1]] : null;
+  return i + dots < TYPES.length ? [{ noteType: type, dots: dots - 1 }, TYPES[i + dots]] : null;
+}
+
+/**
+ * Split a note (with its whole chord) into two in a row of the same pitch,
+ * for a repeated note the OMR engine read as one. Null if it is a 64th.
+ */
+export function splitNote(edits: NoteEdits, note: NoteData, notes: NoteData[], layout: ScoreLayout): NoteEdits | null {
+  const group = chordGroupOf(note, notes);
+  const lead = group[0];
+  const lengths = splitLengths(lead.noteType, lead.dots);
+  if (!lengths) return null;
+  const [first, secondType] = lengths;
+
+  const next = withCorrections(edits, group.map(n => [n.id, { ...edits.corrections.get(n.id), ...first, status: 'corrected' }]));
+  // Placed halfway to the next note, or a little to the right at the end of the measure
+  const following = notes.slice(notes.indexOf(group[group.length - 1]) + 1).find(n => sameVoice(n, lead) && !n.isChord);
+  const x = following ? (lead.absX + following.absX) / 2 : lead.absX + 20;
+  const measureX = layout.measures[lead.measureIndex]?.x ?? layout.margins.left;
+
+  let after = group[group.length - 1].id;
+  const insertions = [...next.insertions];
+  group.forEach((n, k) => {
+    const ins: InsertedNote = {
+      id: `p${n.partIndex}-m${n.measureIndex}-x${insertions.length}`,
+      partIndex: n.partIndex,
+      measureIndex: n.measureIndex,
+      staff: n.staff,
+      voice: n.voice,
+      after,
+      isChord: k > 0,
+      step: n.step,
+      octave: n.octave,
+      alter: n.alter,
+      accidental: null,
+      noteType: secondType,
+      dots: 0,
+      isRest: n.isRest,
+      defaultX: Math.round(x - measureX),
+    };
+    insertions.push(ins);
+    after = ins.id;
+  });
+  return { ...next, insertions };
+}
+
+/**
+ * Merge a note (with its chord) and the next one in its voice into one note
+ * of their combined length, for a note the OMR engine read as two. Null if
+ * there is no next note in the measure or no single note is that long.
+ */
+export function mergeWithNext(edits: NoteEdits, note: NoteData, notes: NoteData[]): NoteEdits | null {
+  const group = chordGroupOf(note, notes);
+  const last = notes.indexOf(group[group.length - 1]);
+  const nextLead = notes.slice(last + 1).find(n => sameVoice(n, group[0]) && !n.isChord);
+  if (!nextLead) return null;
+  const merged = typeOfLength(length64(group[0].noteType, group[0].dots) + length64(nextLead.noteType, nextLead.dots));
+  if (!merged) return null;
+
+  return withCorrections(edits, [
+    ...group.map((n): [string, NoteCorrection] => [n.id, { ...edits.corrections.get(n.id), ...merged, status: 'corrected' }]),
+    ...chordGroupOf(nextLead, notes).map((n): [string, NoteCorrection] =>
+      [n.id, { ...edits.corrections.get(n.id), deleted: true, status: 'corrected' }]),
+  ]);
+}
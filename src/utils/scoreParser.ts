@@ -1,18 +1,38 @@
-import type { NoteData, NoteType, StemDir, ScoreLayout, SystemLayout, PartInfo, ClefInfo, KeyInfo, TimeInfo } from '../types';
-
-// ─── Pitch → staff-Y-offset mapping ──────────────────────────────────────────
-const STEP_NUM: Record<string, number> = {
-  C: 0, D: 1, E: 2, F: 3, G: 4, A: 5, B: 6,
-};
+import type {
+  NoteData, NoteType, StemDir, BeamValue, SlurMark, ScoreLayout, SystemLayout, PartInfo, ConfidenceDetail,
+  ClefInfo, ClefSign, KeyInfo, TimeInfo, AttributeChange, MeasureInfo,
+} from '../types';
+import { DEFAULT_CLEF_LINE, clefLabel, isPitchedClef, pitchToYOffset } from './clef';
+
+// ─── Confidence ──────────────────────────────────────────────────────────────
+// OMR backends annotate each <note> with non-standard attributes: `confidence`
+// for the symbol overall and optional `confidence-pitch`, `confidence-duration`
+// and `confidence-accidental` sub-scores, each 0–1 (or a 0–100 percentage).
+// Notes without any are given a deterministic placeholder, flagged as 'mock'.
+
+function readConfidence(raw: RawNote): { value: number; detail?: ConfidenceDetail } | null {
+  const detail: ConfidenceDetail = {};
+  const pitch = toUnit(raw['_confidence-pitch']);
+  const duration = toUnit(raw['_confidence-duration']);
+  const accidental = toUnit(raw['_confidence-accidental']);
+  if (pitch != null) detail.pitch = pitch;
+  if (duration != null) detail.duration = duration;
+  if (accidental != null) detail.accidental = accidental;
+
+  const subScores = Object.values(detail);
+  // Without an overall score, a symbol is only as certain as its weakest part
+  const value = toUnit(raw._confidence) ?? (subScores.length > 0 ? Math.min(...subScores) : null);
+  if (value == null) return null;
+  return subScores.length > 0 ? { value, detail } : { value };
+}
 
-function pitchToYOffset(step: string, octave: number, clefSign: string): number {
-  const p = octave * 7 + STEP_NUM[step];
-  return clefSign === 'F'
-    ? 130 - 5 * p  // bass clef
-    : 155 - 5 * p; // treble (or octave treble)
+function toUnit(v: unknown): number | null {
+  if (v == null || v === '') return null;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0) return null;
+  return Math.min(1, n > 1 ? n / 100 : n);
 }
 
-// ─── Deterministic mock confidence ──────────────────────────────────────────
 function mockConfidence(partIdx: number, measureIdx: number, noteIdx: number): number {
   const seed = partIdx * 1000 + measureIdx * 100 + noteIdx;
   const x = Math.sin(seed * 127.1 + 311.7) * 43758.5453123;
@@ -32,32 +52,78 @@ interface RawStem {
   _default_y?: string;
 }
 
+interface RawRest {
+  'display-step'?: string;
+  'display-octave'?: string;
+}
+
+type RawText = string | { __text?: string; [key: string]: unknown };
+
 interface RawNote {
   pitch?: RawPitch;
-  rest?: unknown;
-  type?: string;
-  stem?: RawStem;
+  rest?: RawRest | '';
+  type?: RawText;
+  stem?: RawStem | string;
   chord?: unknown;
+  dot?: unknown;
+  duration?: string;
+  voice?: string;
+  staff?: string;
+  tie?: { _type?: string } | Array<{ _type?: string }>;
+  beam?: RawText | RawText[];
+  accidental?: RawText;
+  notations?: {
+    tied?: { _type?: string } | Array<{ _type?: string }>;
+    slur?: RawSlur | RawSlur[];
+    [key: string]: unknown;
+  };
   '_default-x'?: string;
   _default_x?: string;
+  _confidence?: string;
+  '_confidence-pitch'?: string;
+  '_confidence-duration'?: string;
+  '_confidence-accidental'?: string;
+  [key: string]: unknown;
+}
+
+interface RawSlur {
+  _number?: string;
+  _type?: string;
+  _placement?: string;
+}
+
+interface RawClef {
+  sign?: string;
+  line?: string;
+  'clef-octave-change'?: string;
+  _number?: string;
+}
+
+interface RawStaffDetails {
+  'staff-lines'?: string;
+  _number?: string;
+  '_print-object'?: string;
   [key: string]: unknown;
 }
 
+interface RawStaffLayout {
+  'staff-distance'?: string;
+  _number?: string;
+}
+
 interface RawAttributes {
   divisions?: string;
   key?: { fifths?: string; mode?: string };
   time?: { beats?: string; 'beat-type'?: string; 'senza-misura'?: unknown };
-  clef?: {
-    sign?: string;
-    line?: string;
-    'clef-octave-change'?: string;
-  };
+  staves?: string;
+  clef?: RawClef | RawClef[];
+  'staff-details'?: RawStaffDetails | RawStaffDetails[];
   [key: string]: unknown;
 }
 
 interface RawMeasure {
   note?: RawNote | RawNote[];
-  attributes?: RawAttributes;
+  attributes?: RawAttributes | RawAttributes[];
   print?: {
     '_new-system'?: string;
     '_new-page'?: string;
@@ -65,13 +131,24 @@ interface RawMeasure {
       'top-system-distance'?: string;
       'system-distance'?: string;
     };
+    'staff-layout'?: RawStaffLayout | RawStaffLayout[];
     [key: string]: unknown;
   };
+  barline?: RawBarline | RawBarline[];
   _number?: string;
+  _text?: string;
+  _implicit?: string;
   _width?: string;
   [key: string]: unknown;
 }
 
+interface RawBarline {
+  'bar-style'?: string;
+  repeat?: { _direction?: string; _times?: string };
+  ending?: { _number?: string; _type?: string; __text?: string } | string;
+  _location?: string;
+}
+
 interface RawPart {
   measure?: RawMeasure | RawMeasure[];
   [key: string]: unknown;
@@ -84,7 +161,7 @@ interface RawScorePart {
   [key: string]: unknown;
 }
 
-interface RawScore {
+export interface RawScore {
   'score-partwise'?: {
     part?: RawPart | RawPart[];
     defaults?: {
@@ -102,9 +179,7 @@ interface RawScore {
         'system-distance'?: string;
         'top-system-distance'?: string;
       };
-      'staff-layout'?: {
-        'staff-distance'?: string;
-      };
+      'staff-layout'?: RawStaffLayout | RawStaffLayout[];
       [key: string]: unknown;
     };
     'part-list'?: {
@@ -120,6 +195,8 @@ export interface ParseResult {
   notes: NoteData[];
   layout: ScoreLayout;
   parts: PartInfo[];
+  /** Problems that didn't stop parsing but may make the overlay inaccurate. */
+  warnings: string[];
 }
 
 export function parseScore(json: RawScore): ParseResult {
@@ -134,17 +211,54 @@ export function parseScore(json: RawScore): ParseResult {
   const margins = pageLay['page-margins'] ?? {};
   const LEFT_MARGIN = Number(margins['left-margin'] ?? 130);
   const TOP_MARGIN = Number(margins['top-margin'] ?? 97);
-  const STAFF_H = 40; // always 4 staff-spaces × 10 tenths
+  const STAFF_H = 40; // 4 staff-spaces × 10 tenths for a five-line staff
 
   const sysLay = defaults['system-layout'] ?? {};
   const DEFAULT_SYS_DIST = Number(sysLay['system-distance'] ?? 109);
   const DEFAULT_TOP_SYS_DIST = Number(sysLay['top-system-distance'] ?? 109);
-  const STAFF_DIST = Number(defaults['staff-layout']?.['staff-distance'] ?? 82);
+  const STAFF_DIST = staffDistance(defaults['staff-layout'], 1) ?? 82;
 
   const rawParts = toArray(partwise.part);
   const rawScoreParts = toArray(partwise['part-list']?.['score-part']);
   const numParts = rawParts.length;
 
+  // ── Staves per part (2 for a piano grand staff) ─────────────────────────
+  // `hidden[mi][s]` tracks <staff-details print-object="no">, which Finale
+  // writes at the start of a system whose staff is empty and optimised away;
+  // it stays in force until a later <staff-details> shows the staff again.
+  const partStaves = rawParts.map(part => {
+    const measures = toArray(part.measure) as RawMeasure[];
+    const attrs = mergeAttributes(measures[0]?.attributes);
+    const count = Math.max(1, Number(attrs.staves ?? 1));
+    const details = toArray(attrs['staff-details']);
+    const lines: number[] = [];
+    const heights: number[] = [];
+    for (let s = 0; s < count; s++) {
+      const d = details.find(sd => Number(sd._number ?? 1) === s + 1);
+      const n = Number(d?.['staff-lines'] ?? 5);
+      lines.push(n);
+      heights.push(n > 1 ? (n - 1) * 10 : STAFF_H);
+    }
+
+    let current = Array<boolean>(count).fill(false);
+    const hidden = measures.map(m => {
+      for (const sd of toArray(mergeAttributes(m.attributes)['staff-details'])) {
+        if (sd['_print-object'] == null) continue;
+        const isHidden = sd['_print-object'] === 'no';
+        current = current.map((h, s) => (sd._number == null || Number(sd._number) === s + 1 ? isHidden : h));
+      }
+      return current;
+    });
+    return { count, lines, heights, hidden, measures };
+  });
+
+  // Gap above a staff at the start of a system: between parts for staff 0,
+  // within the part otherwise. <print><staff-layout> applies to its system only.
+  const staffGap = (partIdx: number, staff: number, measureIdx: number): number =>
+    staffDistance(partStaves[partIdx].measures[measureIdx]?.print?.['staff-layout'], staff + 1) ??
+    staffDistance(defaults['staff-layout'], staff + 1) ??
+    STAFF_DIST;
+
   // ── Detect system breaks from Part 1 measures ─────────────────────────
   const p1Measures = toArray(rawParts[0]?.measure);
   const totalMeasures = p1Measures.length;
@@ -194,13 +308,9 @@ export function parseScore(json: RawScore): ParseResult {
   const numPages = currentPage + 1;
 
   // ── Compute staff top Y for each system ─────────────────────────────
-  // Staff distance between parts within a system:
-  //   partN_top = system_first_staff_top + N * (STAFF_H + STAFF_DIST)
-  const partSpacing = STAFF_H + STAFF_DIST; // distance between consecutive part staff tops
-
-  // Compute the Y of the bottom of a system (last staff bottom)
-  const systemHeight = (numParts - 1) * partSpacing + STAFF_H;
-
+  // Staves stack top to bottom: each staff top = previous staff bottom + the
+  // staff distance above it (the first visible staff of the system has none).
+  // Hidden staves take no room; their top is where they would have started.
   const systems: SystemLayout[] = [];
   // Track last system bottom per page for system-distance calculation
   const pageLastBottom: Map<number, number> = new Map();
@@ -219,15 +329,32 @@ export function parseScore(json: RawScore): ParseResult {
       firstStaffTop = prevBottom + sd;
     }
 
-    const staffTops: number[] = [];
-    for (let p = 0; p < numParts; p++) {
-      staffTops.push(firstStaffTop + p * partSpacing);
-    }
+    const staffTops: number[][] = [];
+    const hiddenStaves: boolean[][] = [];
+    let y = firstStaffTop;
+    let placed = false;
+    partStaves.forEach((ps, p) => {
+      const tops: number[] = [];
+      const hidden = ps.hidden[sb.startMeasure] ?? Array<boolean>(ps.count).fill(false);
+      for (let s = 0; s < ps.count; s++) {
+        if (!hidden[s]) {
+          if (placed) y += staffGap(p, s, sb.startMeasure);
+          placed = true;
+        }
+        tops.push(y);
+        if (!hidden[s]) y += ps.heights[s];
+      }
+      staffTops.push(tops);
+      hiddenStaves.push(hidden);
+    });
 
-    pageLastBottom.set(sb.page, firstStaffTop + systemHeight);
+    pageLastBottom.set(sb.page, y);
 
     systems.push({
       staffTops,
+      staffLines: partStaves.map(ps => ps.lines),
+      staffHeights: partStaves.map(ps => ps.heights),
+      hiddenStaves,
       measureRange: [sb.startMeasure, sb.endMeasure],
       page: sb.page,
     });
@@ -242,18 +369,69 @@ export function parseScore(json: RawScore): ParseResult {
     }
   }
 
+  // ── Measures: numbering, position and repeat structure (from Part 1) ────
+  const measureInfos: MeasureInfo[] = [];
+  let openEnding: string | undefined;
+  for (let mi = 0; mi < totalMeasures; mi++) {
+    const m = p1Measures[mi] as RawMeasure;
+    const systemIndex = measureToSystem[mi] ?? 0;
+    const prev = measureInfos[mi - 1];
+    const width = Number(m._width ?? 0);
+    const number = String(m._number ?? mi + 1);
+
+    const info: MeasureInfo = {
+      index: mi,
+      number,
+      label: m._text ?? number,
+      implicit: m._implicit === 'yes',
+      systemIndex,
+      x: prev?.systemIndex === systemIndex ? prev.x + prev.width : LEFT_MARGIN,
+      width,
+      repeatStart: false,
+      repeatEnd: false,
+    };
+
+    const barlines = toArray(m.barline);
+    // A volta opens on a left barline and closes on a right one
+    for (const b of barlines) {
+      const e = parseEnding(b.ending);
+      if (e?.type === 'start') openEnding = e.number;
+    }
+    info.ending = openEnding;
+    for (const b of barlines) {
+      if (b.repeat?._direction === 'forward') info.repeatStart = true;
+      if (b.repeat?._direction === 'backward') {
+        info.repeatEnd = true;
+        if (b.repeat._times) info.repeatTimes = Number(b.repeat._times);
+      }
+      const e = parseEnding(b.ending);
+      if (e && e.type !== 'start') openEnding = undefined;
+    }
+    measureInfos.push(info);
+  }
+
   // ── Parse parts and notes ───────────────────────────────────────────────
   const notes: NoteData[] = [];
   const parts: PartInfo[] = [];
+  const warnings: string[] = [];
 
   rawParts.forEach((part, partIdx) => {
     const measures = toArray(part.measure);
 
-    // Parse clef/key/time from the first measure's attributes
-    const firstAttrs = (measures[0] as RawMeasure | undefined)?.attributes ?? {};
-    const clef = parseClef(firstAttrs.clef);
-    const key = parseKey(firstAttrs.key);
-    const time = parseTime(firstAttrs.time);
+    // Clef/key/time in force at the start; later measures (or later in this one) may change them
+    const firstAttrs = mergeAttributes(attributeBlocks(measures[0] as RawMeasure | undefined).start);
+    const { count: staves, heights: staffHeights } = partStaves[partIdx];
+    let clefs = parseClefs(firstAttrs.clef, Array<ClefInfo>(staves).fill(DEFAULT_CLEF));
+    let key = parseKey(firstAttrs.key);
+    let time = parseTime(firstAttrs.time);
+    const changes: AttributeChange[] = [];
+    const warnUnpitched = (c: ClefInfo, pIdx: number, mNum: string) => {
+      if (!isPitchedClef(c)) {
+        warnings.push(`Part ${pIdx + 1}, measure ${mNum}: ${clefLabel(c)} is not supported — notes are placed as if on a treble clef`);
+      }
+    };
+    const firstNum = String((measures[0] as RawMeasure | undefined)?._number ?? 1);
+    clefs.forEach(c => warnUnpitched(c, partIdx, firstNum));
 
     // Part name
     const rawSP = rawScoreParts[partIdx];
@@ -270,9 +448,11 @@ export function parseScore(json: RawScore): ParseResult {
     parts.push({
       id: rawSP?._id ?? `P${partIdx + 1}`,
       name,
-      clef,
+      staves,
+      clefs,
       key,
       time,
+      changes,
     });
 
     measures.forEach((measure, measureIdx) => {
@@ -280,39 +460,65 @@ export function parseScore(json: RawScore): ParseResult {
       const sysIdx = measureToSystem[measureIdx] ?? 0;
       const sys = systems[sysIdx];
 
-      // Compute measure start X: left margin + cumulative width of preceding measures in this system
-      const [sysStart] = sys.measureRange;
-      let mStartX = LEFT_MARGIN;
-      for (let i = sysStart; i < measureIdx; i++) {
-        const w = Number((p1Measures[i] as RawMeasure)?._width ?? 0);
-        mStartX += w;
-      }
+      // Measure start X: left margin + cumulative width of preceding measures in this system
+      const mStartX = measureInfos[measureIdx]?.x ?? LEFT_MARGIN;
 
-      const staffTop = sys.staffTops[partIdx] ?? 0;
       const rawNotes = toArray((measure as { note?: RawNote | RawNote[] }).note);
+      const noteX = (n: RawNote) => mStartX + Number(n['_default-x'] ?? n._default_x ?? 0);
+
+      // Attributes at the start of the measure take effect for all of it; later
+      // ones from the first note at or after their onset, by that note's x
+      const blocks = attributeBlocks(measure as RawMeasure);
+      const measureChanges: AttributeChange[] = [];
+      const addChange = (raw: RawAttributes[], x?: number) => {
+        const attrs = mergeAttributes(raw);
+        const change: AttributeChange = { measureIndex: measureIdx, ...(x !== undefined && { x }) };
+        if (attrs.clef) {
+          const prev = clefs;
+          change.clefs = clefs = parseClefs(attrs.clef, clefs);
+          clefs.forEach((c, i) => { if (c !== prev[i]) warnUnpitched(c, partIdx, mNum); });
+        }
+        if (attrs.key) change.key = key = parseKey(attrs.key);
+        if (attrs.time) change.time = time = parseTime(attrs.time);
+        if (change.clefs || change.key || change.time) measureChanges.push(change);
+      };
+      if (measureIdx > 0 && blocks.start.length > 0) addChange(blocks.start);
+      const startClefs = clefs;
+      const measureEnd = mStartX + (measureInfos[measureIdx]?.width ?? 0);
+      for (const { attrs, onset } of blocks.later) {
+        const after = rawNotes.filter((n, i) => blocks.noteOnsets[i] >= onset).map(noteX);
+        addChange([attrs], after.length > 0 ? Math.min(...after) : measureEnd);
+      }
+      changes.push(...measureChanges);
+      const clefsAt = (x: number): ClefInfo[] =>
+        measureChanges.reduce((cs, ch) => (ch.x !== undefined && ch.x <= x && ch.clefs ? ch.clefs : cs), startClefs);
 
       rawNotes.forEach((rawNote, noteIdx) => {
-        if (!rawNote || rawNote.rest !== undefined) return;
+        if (!rawNote) return;
 
+        const isRest = rawNote.rest !== undefined;
         const pitch = rawNote.pitch;
-        if (!pitch) return;
+        if (!isRest && !pitch) return; // unpitched / cue-only notes are not represented
 
-        const step = String(pitch.step ?? 'C').toUpperCase();
-        const octave = Number(pitch.octave ?? 4);
-        const alter = pitch.alter != null ? Number(pitch.alter) : 0;
+        const staff = Math.min(staves - 1, Math.max(0, Number(rawNote.staff ?? 1) - 1));
+        // Hidden staves only hold Finale's filler whole rests; nothing to overlay
+        if (sys.hiddenStaves[partIdx]?.[staff]) return;
+        const staffTop = sys.staffTops[partIdx]?.[staff] ?? 0;
+        const absX = noteX(rawNote);
+        const clef = clefsAt(absX)[staff];
 
-        const noteType = normaliseNoteType(String(rawNote.type ?? 'quarter'));
+        // Rests take their vertical position from <display-step>/<display-octave>, else sit mid-staff
+        const rest = typeof rawNote.rest === 'object' ? rawNote.rest : undefined;
+        const restPlaced = rest?.['display-step'] != null && rest?.['display-octave'] != null;
+        const step = String((isRest ? rest?.['display-step'] : pitch?.step) ?? 'B').toUpperCase();
+        const octave = Number((isRest ? rest?.['display-octave'] : pitch?.octave) ?? 4);
+        const alter = !isRest && pitch?.alter != null ? Number(pitch.alter) : 0;
 
-        const noteX = Number(
-          rawNote['_default-x'] ??
-          rawNote._default_x ??
-          0
-        );
+        const noteType = normaliseNoteType(textOf(rawNote.type) || (isRest ? 'whole' : 'quarter'));
 
-        const stemObj = rawNote.stem as (RawStem & Record<string, unknown>) | undefined;
-        const stemText = String(stemObj?.__text ?? stemObj?.['__text'] ?? '').toLowerCase();
+        const stemText = textOf(rawNote.stem).toLowerCase();
         const stemDir: StemDir =
-          noteType === 'whole'
+          noteType === 'whole' || isRest
             ? 'none'
             : stemText === 'up'
               ? 'up'
@@ -320,25 +526,63 @@ export function parseScore(json: RawScore): ParseResult {
                 ? 'down'
                 : 'none';
 
-        const yOffset = pitchToYOffset(step, octave, clef.sign);
-        const absX = mStartX + noteX;
+        const ties = [
+          ...toArray(rawNote.tie),
+          ...toArray(rawNote.notations?.tied),
+        ].map(t => t?._type);
+
+        const beams: BeamValue[] = [];
+        for (const b of toArray(rawNote.beam)) {
+          const level = Number(typeof b === 'object' ? b._number ?? 1 : 1);
+          beams[level - 1] = textOf(b) as BeamValue;
+        }
+
+        const slurs: SlurMark[] = [];
+        for (const sl of toArray(rawNote.notations?.slur)) {
+          if (sl?._type !== 'start' && sl?._type !== 'stop' && sl?._type !== 'continue') continue;
+          slurs.push({
+            number: Number(sl._number ?? 1),
+            type: sl._type,
+            ...((sl._placement === 'above' || sl._placement === 'below') && { placement: sl._placement }),
+          });
+        }
+
+        // Rest display positions are written positions, unaffected by an octave clef
+        const yOffset = !isRest
+          ? pitchToYOffset(step, octave, clef)
+          : restPlaced
+            ? pitchToYOffset(step, octave, { ...clef, octaveChange: 0 })
+            : staffHeights[staff] / 2;
         const absY = staffTop + yOffset;
+        const conf = readConfidence(rawNote);
 
         notes.push({
-          id: `p${partIdx}-m${mNum}-n${noteIdx}`,
+          id: noteId(partIdx, measureIdx, noteIdx),
           step,
           octave,
           alter,
+          accidental: !isRest && rawNote.accidental !== undefined ? textOf(rawNote.accidental) || null : null,
           noteType,
+          dots: toArray(rawNote.dot).length,
+          duration: Number(rawNote.duration ?? 0),
+          voice: Number(rawNote.voice ?? 1),
+          isChord: rawNote.chord !== undefined,
+          tieStart: ties.includes('start'),
+          tieStop: ties.includes('stop'),
+          beams: Array.from(beams, b => b ?? 'continue'),
+          slurs,
           absX,
           absY,
           stemDir,
-          confidence: mockConfidence(partIdx, measureIdx, noteIdx),
+          confidence: conf?.value ?? mockConfidence(partIdx, measureIdx, noteIdx),
+          confidenceSource: conf ? 'omr' : 'mock',
+          ...(conf?.detail && { confidenceDetail: conf.detail }),
           partIndex: partIdx,
+          staff,
           measureNum: mNum,
           measureIndex: measureIdx,
           systemIndex: sysIdx,
-          isRest: false,
+          isRest,
           status: 'unreviewed',
         });
       });
@@ -348,20 +592,213 @@ export function parseScore(json: RawScore): ParseResult {
   const layout: ScoreLayout = {
     pageWidth: PAGE_W,
     pageHeight: PAGE_H,
+    margins: {
+      left: LEFT_MARGIN,
+      right: Number(margins['right-margin'] ?? LEFT_MARGIN),
+      top: TOP_MARGIN,
+      bottom: Number(margins['bottom-margin'] ?? TOP_MARGIN),
+    },
     totalHeight: PAGE_H * numPages,
     numPages,
     numParts,
     systems,
+    measures: measureInfos,
   };
 
-  return { notes, layout, parts };
+  const mockCount = notes.filter(n => n.confidenceSource === 'mock').length;
+  if (mockCount === notes.length && notes.length > 0) {
+    warnings.push('The score has no confidence scores — placeholder values are shown, so the threshold is not meaningful');
+  } else if (mockCount > 0) {
+    warnings.push(`${mockCount} of ${notes.length} notes have no confidence score — placeholder values are shown for them`);
+  }
+
+  return { notes, layout, parts, warnings };
+}
+
+// ─── Measure content in source order ─────────────────────────────────────────
+// The JSON groups a measure's repeated children into arrays (all <note>s, all
+// <backup>s…), which loses how they interleave. The loader records each
+// child's position in the document under ORDER_KEY. It is stored like an
+// attribute so it survives JSON round trips, and the writer leaves it out.
+
+export const ORDER_KEY = '_order';
+
+export interface MeasureChild {
+  /** Element name, e.g. 'note', 'backup', 'attributes'. */
+  name: string;
+  value: unknown;
+}
+
+/**
+ * A measure's child elements in document order. Notes without a recorded
+ * position (added by the reviewer) follow the note before them in the
+ * `<note>` list, or come before the first note. Without any recorded
+ * positions the children come grouped by element name.
+ */
+export function measureContent(measure: Record<string, unknown>): MeasureChild[] {
+  const children: MeasureChild[] = [];
+  for (const [name, v] of Object.entries(measure)) {
+    if (name.startsWith('_')) continue; // attributes and text
+    for (const value of toArray(v)) children.push({ name, value });
+  }
+  const orderOf = (c: MeasureChild) => sourceOrder(c.value);
+  if (!children.some(c => orderOf(c) !== undefined)) return children;
+
+  // Unordered notes, keyed by the ordered note they follow (null: before the first)
+  const following = new Map<unknown, MeasureChild[]>();
+  let anchor: unknown = null;
+  for (const c of children) {
+    if (c.name !== 'note') continue;
+    if (orderOf(c) !== undefined) anchor = c.value;
+    else following.set(anchor, [...following.get(anchor) ?? [], c]);
+  }
+
+  const ordered = children.filter(c => orderOf(c) !== undefined).sort((a, b) => orderOf(a)! - orderOf(b)!);
+  const out: MeasureChild[] = [];
+  let leadingPlaced = false;
+  for (const c of ordered) {
+    if (c.name === 'note' && !leadingPlaced) {
+      out.push(...following.get(null) ?? []);
+      leadingPlaced = true;
+    }
+    out.push(c);
+    if (c.name === 'note') out.push(...following.get(c.value) ?? []);
+  }
+  if (!leadingPlaced) {
+    // No source notes left: before the closing barlines
+    let end = out.length;
+    while (end > 0 && out[end - 1].name === 'barline') end--;
+    out.splice(end, 0, ...following.get(null) ?? []);
+  }
+  // Anything else without a position goes last
+  out.push(...children.filter(c => c.name !== 'note' && orderOf(c) === undefined));
+  return out;
+}
+
+function sourceOrder(value: unknown): number | undefined {
+  const v = value && typeof value === 'object' ? (value as Record<string, unknown>)[ORDER_KEY] : undefined;
+  return v == null ? undefined : Number(v);
+}
+
+/**
+ * Stable note id: part index, measure index and the note's index within the
+ * measure's `<note>` list. Measure numbers are not used as they need not be
+ * unique (a pickup and the first full bar, or "X1"-style repeats).
+ */
+export function noteId(partIdx: number, measureIndex: number, noteIdx: number): string {
+  return `p${partIdx}-m${measureIndex}-n${noteIdx}`;
+}
+
+/**
+ * Clef, key and time in force in a measure, following the part's attribute
+ * changes: at the start of the measure, or at page x `x` (tenths, like
+ * `NoteData.absX`) to include changes part-way through it.
+ */
+export function attributesAt(part: PartInfo, measureIndex: number, x?: number): Pick<PartInfo, 'clefs' | 'key' | 'time'> {
+  let { clefs, key, time } = part;
+  for (const ch of part.changes) {
+    if (ch.measureIndex > measureIndex) break;
+    if (ch.measureIndex === measureIndex && ch.x !== undefined && (x === undefined || ch.x > x)) continue;
+    clefs = ch.clefs ?? clefs;
+    key = ch.key ?? key;
+    time = ch.time ?? time;
+  }
+  return { clefs, key, time };
 }
 
 // ─── Attribute parsers ────────────────────────────────────────────────────────
-function parseClef(raw: RawAttributes['clef']): ClefInfo {
-  if (!raw) return { sign: 'G', line: 2, octaveChange: 0 };
-  const sign = (String(raw.sign ?? 'G').toUpperCase()) as 'G' | 'F' | 'C';
-  const line = Number(raw.line ?? 2);
+/**
+ * Several <attributes> elements combined, later ones winning. Clefs and staff
+ * details are numbered by staff, so every block's entries are kept in order:
+ * a clef change for staff 1 and a later one for staff 2 both apply.
+ */
+function mergeAttributes(raw: RawAttributes | RawAttributes[] | undefined): RawAttributes {
+  const blocks = toArray(raw);
+  const merged: RawAttributes = Object.assign({}, ...blocks);
+  const clefs = blocks.flatMap(b => toArray(b.clef));
+  const details = blocks.flatMap(b => toArray(b['staff-details']));
+  if (clefs.length > 0) merged.clef = clefs;
+  if (details.length > 0) merged['staff-details'] = details;
+  return merged;
+}
+
+interface AttributeBlocks {
+  /** <attributes> at the very start of the measure. */
+  start: RawAttributes[];
+  /** Later ones, with their onset in divisions. */
+  later: { attrs: RawAttributes; onset: number }[];
+  /** Onset of each <note>, in divisions, by index. */
+  noteOnsets: number[];
+}
+
+/**
+ * A measure's <attributes> split by where they occur, found by walking its
+ * content in source order with <backup> and <forward> moving the time. A
+ * measure without a recorded source order has all of them at the start.
+ */
+function attributeBlocks(measure: RawMeasure | undefined): AttributeBlocks {
+  const blocks: AttributeBlocks = { start: [], later: [], noteOnsets: [] };
+  if (!measure) return blocks;
+  const content = measureContent(measure);
+  if (!content.some(c => sourceOrder(c.value) !== undefined)) {
+    blocks.start = toArray(measure.attributes);
+    return blocks;
+  }
+
+  let time = 0;
+  let lastOnset = 0;
+  for (const { name, value } of content) {
+    const duration = Number((value as { duration?: unknown } | null)?.duration ?? 0) || 0;
+    if (name === 'note') {
+      const note = value as RawNote;
+      if (note.chord === undefined) lastOnset = time;
+      blocks.noteOnsets.push(lastOnset);
+      if (note.chord === undefined && note.grace === undefined) time += duration;
+    } else if (name === 'backup') {
+      time = Math.max(0, time - duration);
+    } else if (name === 'forward') {
+      time += duration;
+    } else if (name === 'attributes') {
+      const attrs = value as RawAttributes;
+      if (time === 0) blocks.start.push(attrs);
+      else blocks.later.push({ attrs, onset: time });
+    }
+  }
+  blocks.later.sort((a, b) => a.onset - b.onset);
+  return blocks;
+}
+
+const CLEF_SIGNS: Record<string, ClefSign> = {
+  G: 'G', F: 'F', C: 'C', PERCUSSION: 'percussion', TAB: 'TAB', JIANPU: 'jianpu', NONE: 'none',
+};
+
+const DEFAULT_CLEF: ClefInfo = { sign: 'G', line: 2, octaveChange: 0 };
+
+/** Apply <clef> elements (one per staff, by `number`) on top of the clefs in force. */
+function parseClefs(raw: RawAttributes['clef'], current: ClefInfo[]): ClefInfo[] {
+  const next = current.slice();
+  for (const c of toArray(raw)) {
+    const i = Number(c._number ?? 1) - 1;
+    if (i >= 0 && i < next.length) next[i] = parseClef(c);
+  }
+  return next;
+}
+
+/** `<staff-distance>` for a 1-based staff number; an un-numbered `<staff-layout>` applies to every staff. */
+function staffDistance(raw: RawStaffLayout | RawStaffLayout[] | undefined, staffNum: number): number | undefined {
+  const entry = toArray(raw).find(l => Number(l._number ?? staffNum) === staffNum && l['staff-distance'] != null);
+  return entry ? Number(entry['staff-distance']) : undefined;
+}
+
+function parseEnding(raw: RawBarline['ending']): { number: string; type: string } | undefined {
+  if (raw == null || typeof raw !== 'object') return undefined;
+  return { number: raw._number ?? '', type: raw._type ?? 'start' };
+}
+
+function parseClef(raw: RawClef | undefined): ClefInfo {
+  if (!raw) return DEFAULT_CLEF;
+  const sign = CLEF_SIGNS[String(raw.sign ?? 'G').toUpperCase()] ?? 'none';
+  const line = Number(raw.line ?? DEFAULT_CLEF_LINE[sign]);
   const octaveChange = Number(raw['clef-octave-change'] ?? 0);
   return { sign, line, octaveChange };
 }
@@ -390,6 +827,12 @@ function toArray<T>(v: T | T[] | undefined | null): T[] {
   return Array.isArray(v) ? v : [v];
 }
 
+/** Text content of an element that may or may not carry attributes. */
+function textOf(v: unknown): string {
+  if (v && typeof v === 'object') return String((v as { __text?: unknown }).__text ?? '');
+  return v == null ? '' : String(v);
+}
+
 function normaliseNoteType(raw: string): NoteType {
   const map: Record<string, NoteType> = {
     whole: 'whole',
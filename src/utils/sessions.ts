@@ -0,0 +1,179 @@
+import type { RawScore } from './scoreParser';
+import type { CalibrationState, InsertedNote, NoteCorrection } from '../types';
+
+// ─── Review sessions ─────────────────────────────────────────────────────────
+// A session is everything needed to pick a review up where it stopped: the
+// page images, the score as the OMR service (or a MusicXML file) gave it, the
+// edits, the calibration and the threshold. Sessions live in IndexedDB in
+// this browser; a bundle file carries one to another reviewer.
+
+export interface ReviewSession {
+  id: string;
+  /** The work title, or the name of the uploaded file. */
+  name: string;
+  /** Milliseconds since the epoch. */
+  created: number;
+  updated: number;
+  /** Page images in page order; none for a score opened from MusicXML alone. */
+  images: Blob[];
+  score: RawScore;
+  corrections: Map<string, NoteCorrection>;
+  insertions: InsertedNote[];
+  /** Including the per-system overrides. */
+  calibration: CalibrationState;
+  threshold: number;
+  /** Kept for the session list, so listing does not parse every score. */
+  noteCount: number;
+  reviewedCount: number;
+}
+
+/** What the session list shows. */
+export interface SessionSummary {
+  id: string;
+  name: string;
+  created: number;
+  updated: number;
+  pages: number;
+  noteCount: number;
+  reviewedCount: number;
+}
+
+export function newSessionId(): string {
+  return crypto.randomUUID();
+}
+
+// ─── IndexedDB store ─────────────────────────────────────────────────────────
+const DB_NAME = 'harmonia';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('Could not open the session store'));
+  }).catch(err => {
+    // Let the next call try again (e.g. after the user allows storage)
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+}
+
+/** Run one request in its own transaction and resolve with its result once the transaction commits. */
+async function inStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? new Error('Session store request failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('Session store request was aborted'));
+  });
+}
+
+export async function saveSession(session: ReviewSession): Promise<void> {
+  await inStore('readwrite', store => store.put(session));
+}
+
+export async function loadSession(id: string): Promise<ReviewSession> {
+  const session = await inStore<ReviewSession | undefined>('readonly', store => store.get(id));
+  if (!session) throw new Error('That session is no longer saved in this browser');
+  return session;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await inStore('readwrite', store => store.delete(id));
+}
+
+/** Every saved session, most recently updated first. */
+export async function listSessions(): Promise<SessionSummary[]> {
+  const all = await inStore<ReviewSession[]>('readonly', store => store.getAll());
+  return all.map(summarise).sort((a, b) => b.updated - a.updated);
+}
+
+function summarise(s: ReviewSession): SessionSummary {
+  return {
+    id: s.id,
+    name: s.name,
+    created: s.created,
+    updated: s.updated,
+    pages: s.images.length,
+    noteCount: s.noteCount,
+    reviewedCount: s.reviewedCount,
+  };
+}
+
+// ─── Bundle files ────────────────────────────────────────────────────────────
+// A bundle is one JSON document: the session with its images as data URLs and
+// its corrections as [id, correction] pairs.
+
+const BUNDLE_FORMAT = 'harmonia-session';
+const BUNDLE_VERSION = 1;
+
+export const BUNDLE_EXTENSION = '.harmonia.json';
+
+interface SessionBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  session: Omit<ReviewSession, 'images' | 'corrections'> & {
+    images: string[];
+    corrections: [string, NoteCorrection][];
+  };
+}
+
+export async function sessionToBundle(session: ReviewSession): Promise<string> {
+  const bundle: SessionBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    session: {
+      ...session,
+      images: await Promise.all(session.images.map(blobToDataUrl)),
+      corrections: [...session.corrections],
+    },
+  };
+  return JSON.stringify(bundle);
+}
+
+/**
+ * Read a bundle file back into a session. The session gets a new id, so
+ * importing a colleague's copy never overwrites the local one.
+ */
+export async function sessionFromBundle(text: string): Promise<ReviewSession> {
+  let bundle: Partial<SessionBundle>;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('Not a session file: it is not valid JSON');
+  }
+  if (bundle.format !== BUNDLE_FORMAT || !bundle.session) throw new Error('Not a Harmonia session file');
+  if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+    throw new Error('This session file was saved by a newer version of Harmonia');
+  }
+  const { session } = bundle;
+  if (!session.score?.['score-partwise']) throw new Error('The session file has no score');
+  return {
+    ...session,
+    id: newSessionId(),
+    images: await Promise.all((session.images ?? []).map(dataUrlToBlob)),
+    corrections: new Map(session.corrections ?? []),
+    insertions: session.insertions ?? [],
+  };
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read a page image'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function dataUrlToBlob(url: string): Promise<Blob> {
+  if (!url.startsWith('data:')) throw new Error('The session file has a page image that is not embedded');
+  return (await fetch(url)).blob();
+}
@@ -0,0 +1,289 @@
+import type { CalibrationState, ScoreLayout, SystemCalibration } from '../types';
+import { makeTransform, systemTransforms } from './transform';
+
+// ─── Staff-line detection ────────────────────────────────────────────────────
+// Staff lines are the longest horizontal runs of ink on a page, so a
+// horizontal projection (dark pixels per row) shows them as sharp peaks.
+// Peaks are grouped into staves of five evenly spaced lines, and each staff's
+// horizontal extent is where at least three of its lines are inked.
+
+/** A staff found in the image, in image pixels. */
+export interface DetectedStaff {
+  /** Centre Y of the top and bottom lines. */
+  top: number;
+  bottom: number;
+  /** Left and right ends of the lines. */
+  left: number;
+  right: number;
+}
+
+/** Images are analysed at most this wide; staff lines survive the downscale. */
+const MAX_ANALYSIS_W = 1200;
+/** A row is a line candidate if it is at least this dark relative to the darkest row. */
+const LINE_ROW_FRACTION = 0.4;
+/** Allowed deviation of each line gap from the staff's median gap. */
+const GAP_TOLERANCE = 0.25;
+
+export function detectStaves(image: CanvasImageSource, width: number, height: number): DetectedStaff[] {
+  const scale = Math.min(1, MAX_ANALYSIS_W / width);
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(image, 0, 0, w, h);
+  const dark = binarize(ctx.getImageData(0, 0, w, h));
+
+  // ── Horizontal projection → line rows → lines ──────────────────────────
+  const rowInk = new Array<number>(h).fill(0);
+  for (let y = 0; y < h; y++) {
+    let n = 0;
+    for (let x = 0; x < w; x++) n += dark[y * w + x];
+    rowInk[y] = n;
+  }
+  const minInk = LINE_ROW_FRACTION * Math.max(0, ...rowInk);
+  if (minInk === 0) return [];
+
+  const lines: number[] = [];
+  for (let y = 0; y < h; y++) {
+    if (rowInk[y] < minInk) continue;
+    let end = y;
+    while (end + 1 < h && rowInk[end + 1] >= minInk) end++;
+    lines.push((y + end) / 2);
+    y = end;
+  }
+
+  // ── Five evenly spaced lines make a staff ──────────────────────────────
+  const staves: DetectedStaff[] = [];
+  for (let i = 0; i + 4 < lines.length; ) {
+    const ys = lines.slice(i, i + 5);
+    const gaps = ys.slice(1).map((y, k) => y - ys[k]);
+    const median = [...gaps].sort((a, b) => a - b)[2];
+    if (median >= 2 && gaps.every(g => Math.abs(g - median) <= GAP_TOLERANCE * median)) {
+      const [left, right] = staffExtent(dark, w, ys);
+      staves.push({ top: ys[0] / scale, bottom: ys[4] / scale, left: left / scale, right: right / scale });
+      i += 5;
+    } else {
+      i++;
+    }
+  }
+  return staves;
+}
+
+/** 1 for ink, 0 for paper, using Otsu's threshold on luminance. */
+function binarize(img: ImageData): Uint8Array {
+  const n = img.width * img.height;
+  const lum = new Uint8Array(n);
+  const hist = new Array<number>(256).fill(0);
+  for (let i = 0; i < n; i++) {
+    const d = img.data;
+    // Transparent pixels count as white paper
+    const a = d[i * 4 + 3] / 255;
+    const l = Math.round((0.299 * d[i * 4] + 0.587 * d[i * 4 + 1] + 0.114 * d[i * 4 + 2]) * a + 255 * (1 - a));
+    lum[i] = l;
+    hist[l]++;
+  }
+
+  let sum = 0;
+  for (let t = 0; t < 256; t++) sum += t * hist[t];
+  let sumB = 0, wB = 0, best = 0, threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    wB += hist[t];
+    if (wB === 0) continue;
+    const wF = n - wB;
+    if (wF === 0) break;
+    sumB += t * hist[t];
+    const mB = sumB / wB;
+    const mF = (sum - sumB) / wF;
+    const between = wB * wF * (mB - mF) ** 2;
+    if (between > best) { best = between; threshold = t; }
+  }
+
+  const out = new Uint8Array(n);
+  for (let i = 0; i < n; i++) out[i] = lum[i] <= threshold ? 1 : 0;
+  return out;
+}
+
+function staffExtent(dark: Uint8Array, w: number, lineYs: number[]): [number, number] {
+  const rows = lineYs.map(y => Math.round(y));
+  const inked = (x: number) => rows.filter(y => dark[y * w + x]).length >= 3;
+  let left = 0;
+  while (left < w - 1 && !inked(left)) left++;
+  let right = w - 1;
+  while (right > left && !inked(right)) right--;
+  return [left, right];
+}
+
+// ─── Fitting the overlay to detected staves ──────────────────────────────────
+// Scans drift down the page, so each system is fitted on its own: the page
+// transform stays as it is and every system with a matched staff gets an
+// override (see transform.ts) that lands its staves on the detected ones.
+
+export interface AlignResult {
+  calibration: CalibrationState;
+  /** Staves matched between the image and the layout. */
+  matched: number;
+  /** Systems given an override from the match. */
+  systems: number;
+  /** Root-mean-square vertical error after fitting, in canvas pixels. */
+  residual: number;
+}
+
+const STAFF_H_TENTHS = 40;
+/** Fits needing more stretch than this are treated as failures. */
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 2;
+
+/** A staff expected from the layout, in uncalibrated canvas pixels. */
+interface ExpectedStaff extends DetectedStaff {
+  systemIndex: number;
+}
+
+/**
+ * Fit per-system overrides so that the page's staves in `layout` land on the
+ * staves detected in the image. Staves are matched in top-to-bottom order;
+ * if the counts differ, the contiguous run with the smallest error is used.
+ * Systems with no matched staff, or whose fit needs too much stretch, are
+ * left to interpolation; overrides for systems on other pages are kept.
+ * Returns null when nothing usable was found.
+ *
+ * `imageScale` converts image pixels to canvas pixels (display width ÷
+ * natural width).
+ */
+export function fitCalibration(
+  detected: DetectedStaff[],
+  layout: ScoreLayout,
+  page: number,
+  canvasW: number,
+  canvasH: number,
+  imageScale: number,
+  base: CalibrationState,
+): AlignResult | null {
+  const sx = canvasW / layout.pageWidth;
+  const sy = canvasH / layout.pageHeight;
+  const pageTop = page * layout.pageHeight;
+
+  // Expected staves on this page, in uncalibrated canvas pixels
+  const expected: ExpectedStaff[] = [];
+  layout.systems.forEach((sys, si) => {
+    if (sys.page !== page) return;
+    const measures = layout.measures.filter(m => m.systemIndex === si);
+    const x0 = Math.min(...measures.map(m => m.x));
+    const x1 = Math.max(...measures.map(m => m.x + m.width));
+    sys.staffTops.forEach((tops, p) => tops.forEach((top, s) => {
+      if (sys.hiddenStaves[p]?.[s]) return;
+      expected.push({
+        systemIndex: si,
+        top: (top - pageTop) * sy,
+        bottom: (top - pageTop + STAFF_H_TENTHS) * sy,
+        left: x0 * sx,
+        right: x1 * sx,
+      });
+    }));
+  });
+  expected.sort((a, b) => a.top - b.top);
+
+  // Detected staves on the canvas, and taken back through the page transform
+  // so they compare directly with the layout
+  const page0 = makeTransform(base, canvasW, canvasH);
+  const found = detected
+    .map(d => {
+      const canvas = { top: d.top * imageScale, bottom: d.bottom * imageScale, left: d.left * imageScale, right: d.right * imageScale };
+      const midX = (canvas.left + canvas.right) / 2;
+      const midY = (canvas.top + canvas.bottom) / 2;
+      const layoutFrame: DetectedStaff = {
+        top: page0.inverse(midX, canvas.top).y,
+        bottom: page0.inverse(midX, canvas.bottom).y,
+        left: page0.inverse(canvas.left, midY).x,
+        right: page0.inverse(canvas.right, midY).x,
+      };
+      return { canvas, ...layoutFrame };
+    })
+    .sort((a, b) => a.canvas.top - b.canvas.top);
+
+  const n = Math.min(expected.length, found.length);
+  if (n === 0) return null;
+
+  // Pick the run to match by how well one stretch fits it
+  let run: { exp: ExpectedStaff[]; img: typeof found; rms: number } | null = null;
+  for (let e = 0; e + n <= expected.length; e++) {
+    for (let f = 0; f + n <= found.length; f++) {
+      const exp = expected.slice(e, e + n);
+      const img = found.slice(f, f + n);
+      const fy = fitLine(exp.flatMap(s => [s.top, s.bottom]), img.flatMap(s => [s.top, s.bottom]));
+      if (fy && (!run || fy.rms < run.rms)) run = { exp, img, rms: fy.rms };
+    }
+  }
+  if (!run) return null;
+
+  // One override per system, about its top-left corner as transform.ts applies it
+  const systems: Record<number, SystemCalibration> = {};
+  const scales: number[] = [];
+  for (const si of new Set(run.exp.map(s => s.systemIndex))) {
+    const pairs = run.exp.flatMap((s, i) => (s.systemIndex === si ? [{ exp: s, img: run.img[i] }] : []));
+    const sys = layout.systems[si];
+    const ax = pairs[0].exp.left;
+    const ay = (Math.min(...sys.staffTops.flat()) - pageTop) * sy;
+
+    const fy = fitLine(
+      pairs.flatMap(({ exp }) => [exp.top - ay, exp.bottom - ay]),
+      pairs.flatMap(({ img }) => [img.top - ay, img.bottom - ay]),
+    );
+    if (!fy || fy.scale < MIN_SCALE || fy.scale > MAX_SCALE) continue;
+    const xs = pairs.flatMap(({ exp }) => [exp.left - ax, exp.right - ax]);
+    const targets = pairs.flatMap(({ img }) => [img.left - ax, img.right - ax]);
+    const offsetX = mean(targets) - fy.scale * mean(xs);
+
+    systems[si] = { offsetX: Math.round(offsetX), offsetY: Math.round(fy.offset), scale: round3(fy.scale) };
+    scales.push(fy.scale);
+  }
+  if (scales.length === 0) return null;
+
+  // Overrides on other pages stay; this page's are replaced by the fit
+  const otherPages = Object.entries(base.systems)
+    .filter(([si]) => layout.systems[Number(si)]?.page !== page);
+  const calibration: CalibrationState = {
+    ...base,
+    noteScale: round3(base.scaleY * mean(scales)), // note heads follow the staff size
+    systems: { ...Object.fromEntries(otherPages), ...systems },
+  };
+
+  // Vertical error of the matched staves with the new overrides, on the canvas
+  const transformFor = systemTransforms(calibration, layout, canvasW, canvasH);
+  const errors = run.exp.flatMap((s, i) => {
+    const t = transformFor(s.systemIndex);
+    const midX = (s.left + s.right) / 2;
+    const { canvas } = run.img[i];
+    return [t.forward(midX, s.top).y - canvas.top, t.forward(midX, s.bottom).y - canvas.bottom];
+  });
+  const residual = Math.sqrt(mean(errors.map(e => e * e)));
+
+  return { calibration, matched: n, systems: scales.length, residual };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function round3(v: number): number {
+  return Math.round(v * 1000) / 1000;
+}
+
+/** Least-squares fit of `to ≈ scale × from + offset`. */
+function fitLine(from: number[], to: number[]): { scale: number; offset: number; rms: number } | null {
+  const n = from.length;
+  const mx = from.reduce((a, b) => a + b, 0) / n;
+  const my = to.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0, sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (from[i] - mx) ** 2;
+    sxy += (from[i] - mx) * (to[i] - my);
+  }
+  if (sxx === 0) return null;
+  const scale = sxy / sxx;
+  const offset = my - scale * mx;
+  const rms = Math.sqrt(from.reduce((a, x, i) => a + (scale * x + offset - to[i]) ** 2, 0) / n);
+  return { scale, offset, rms };
+}
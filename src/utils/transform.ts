@@ -0,0 +1,214 @@
+import type { CalibrationState, Point, Quad, ScoreLayout, SystemCalibration, SystemLayout } from '../types';
+
+// ─── Overlay transform ───────────────────────────────────────────────────────
+// A layout point in canvas pixels goes through two stages:
+//   1. affine — scale about the origin, shift by the offset, then rotate
+//      about the canvas centre;
+//   2. perspective — the homography taking the canvas rectangle onto the
+//      calibration quad (skipped when there is none).
+// Both stages are invertible, so hit-testing can map clicks back.
+
+export interface Transform {
+  forward(x: number, y: number): Point;
+  inverse(x: number, y: number): Point;
+}
+
+/** The canvas corners, as a quad of canvas-size fractions: no perspective change. */
+export const IDENTITY_QUAD: Quad = [
+  { x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 },
+];
+
+export function makeTransform(calib: CalibrationState, canvasW: number, canvasH: number): Transform {
+  const { scaleX, scaleY, offsetX, offsetY } = calib;
+  const cx = canvasW / 2;
+  const cy = canvasH / 2;
+  const theta = (calib.rotation * Math.PI) / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+
+  const h = calib.perspective ? homography(canvasW, canvasH, calib.perspective) : null;
+  const hInv = h && invert3(h);
+
+  return {
+    forward(x, y) {
+      const ax = x * scaleX + offsetX - cx;
+      const ay = y * scaleY + offsetY - cy;
+      const p = { x: ax * cos - ay * sin + cx, y: ax * sin + ay * cos + cy };
+      return h ? apply3(h, p) : p;
+    },
+    inverse(x, y) {
+      const p = hInv ? apply3(hInv, { x, y }) : { x, y };
+      const rx = p.x - cx;
+      const ry = p.y - cy;
+      return {
+        x: (rx * cos + ry * sin + cx - offsetX) / scaleX,
+        y: (-rx * sin + ry * cos + cy - offsetY) / scaleY,
+      };
+    },
+  };
+}
+
+/**
+ * Offset that makes the layout point `raw` (canvas pixels) land on the
+ * canvas point `target`, keeping the calibration's scale, rotation and
+ * perspective.
+ */
+export function offsetToPlace(
+  calib: CalibrationState,
+  canvasW: number,
+  canvasH: number,
+  raw: Point,
+  target: Point,
+): { offsetX: number; offsetY: number } {
+  // Undo perspective and rotation with the offset zeroed, then compare
+  const p = makeTransform({ ...calib, offsetX: 0, offsetY: 0 }, canvasW, canvasH).inverse(target.x, target.y);
+  return { offsetX: (p.x - raw.x) * calib.scaleX, offsetY: (p.y - raw.y) * calib.scaleY };
+}
+
+// ─── Per-system adjustment ───────────────────────────────────────────────────
+// Scans drift down the page, so one transform rarely fits every system. A
+// system may carry its own nudge; the others take one interpolated by
+// vertical position between the nearest nudged systems on the same page. A
+// page's first and last systems count as un-nudged unless they have their own,
+// so a single override on the bottom system ramps in from nothing at the top.
+
+export const NO_ADJUSTMENT: SystemCalibration = { offsetX: 0, offsetY: 0, scale: 1 };
+
+/** The nudge in effect for a system: its override, or one interpolated from its neighbours. */
+export function systemAdjustment(calib: CalibrationState, layout: ScoreLayout, systemIndex: number): SystemCalibration {
+  const own = calib.systems[systemIndex];
+  if (own) return own;
+  const page = layout.systems[systemIndex]?.page;
+  if (page === undefined) return NO_ADJUSTMENT;
+
+  const onPage = layout.systems
+    .map((sys, si) => ({ si, sys }))
+    .filter(({ sys }) => sys.page === page);
+  const anchors = onPage
+    .filter(({ si }, i) => calib.systems[si] || i === 0 || i === onPage.length - 1)
+    .map(({ si, sys }) => ({ y: systemTop(sys), adj: calib.systems[si] ?? NO_ADJUSTMENT }));
+
+  const y = systemTop(layout.systems[systemIndex]);
+  const below = anchors.find(a => a.y >= y);
+  const above = [...anchors].reverse().find(a => a.y <= y);
+  if (!above || !below) return (above ?? below)?.adj ?? NO_ADJUSTMENT;
+  if (below.y === above.y) return above.adj;
+  const k = (y - above.y) / (below.y - above.y);
+  const lerp = (a: number, b: number) => a + (b - a) * k;
+  return {
+    offsetX: lerp(above.adj.offsetX, below.adj.offsetX),
+    offsetY: lerp(above.adj.offsetY, below.adj.offsetY),
+    scale: lerp(above.adj.scale, below.adj.scale),
+  };
+}
+
+/**
+ * Full transform for one system's points: its nudge (scaled about the
+ * system's top-left corner), then the page transform.
+ */
+export function makeSystemTransform(
+  calib: CalibrationState,
+  layout: ScoreLayout,
+  systemIndex: number,
+  canvasW: number,
+  canvasH: number,
+): Transform {
+  const page = makeTransform(calib, canvasW, canvasH);
+  const sys = layout.systems[systemIndex];
+  const adj = systemAdjustment(calib, layout, systemIndex);
+  if (!sys || adj === NO_ADJUSTMENT) return page;
+
+  const measures = layout.measures.filter(m => m.systemIndex === systemIndex);
+  const ax = (measures.length > 0 ? Math.min(...measures.map(m => m.x)) : 0) * (canvasW / layout.pageWidth);
+  const ay = (systemTop(sys) - sys.page * layout.pageHeight) * (canvasH / layout.pageHeight);
+
+  return {
+    forward(x, y) {
+      return page.forward(ax + (x - ax) * adj.scale + adj.offsetX, ay + (y - ay) * adj.scale + adj.offsetY);
+    },
+    inverse(x, y) {
+      const p = page.inverse(x, y);
+      return { x: ax + (p.x - adj.offsetX - ax) / adj.scale, y: ay + (p.y - adj.offsetY - ay) / adj.scale };
+    },
+  };
+}
+
+/** `makeSystemTransform` for every system, built on first use. */
+export function systemTransforms(
+  calib: CalibrationState,
+  layout: ScoreLayout,
+  canvasW: number,
+  canvasH: number,
+): (systemIndex: number) => Transform {
+  const cache = new Map<number, Transform>();
+  return (si) => {
+    let t = cache.get(si);
+    if (!t) cache.set(si, t = makeSystemTransform(calib, layout, si, canvasW, canvasH));
+    return t;
+  };
+}
+
+function systemTop(sys: SystemLayout): number {
+  return Math.min(...sys.staffTops.flat());
+}
+
+// ─── 3×3 homography helpers ──────────────────────────────────────────────────
+type Mat3 = number[]; // row-major, 9 entries
+
+/** Homography taking the canvas rectangle's corners to `quad` (in canvas-size fractions). */
+function homography(w: number, h: number, quad: Quad): Mat3 | null {
+  const src: Point[] = [{ x: 0, y: 0 }, { x: w, y: 0 }, { x: w, y: h }, { x: 0, y: h }];
+  const dst = quad.map(q => ({ x: q.x * w, y: q.y * h }));
+
+  // Eight equations in the eight unknowns h0…h7 (h8 = 1)
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]); b.push(u);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y]); b.push(v);
+  }
+  const sol = solve(A, b);
+  return sol && [...sol, 1];
+}
+
+function apply3(m: Mat3, p: Point): Point {
+  const w = m[6] * p.x + m[7] * p.y + m[8];
+  return {
+    x: (m[0] * p.x + m[1] * p.y + m[2]) / w,
+    y: (m[3] * p.x + m[4] * p.y + m[5]) / w,
+  };
+}
+
+function invert3(m: Mat3): Mat3 | null {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det,
+  ];
+}
+
+/** Gaussian elimination with partial pivoting; null if singular. */
+function solve(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    if (Math.abs(M[pivot][col]) < 1e-12) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const k = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= k * M[col][c];
+    }
+  }
+  return M.map((row, i) => row[n] / row[i]);
+}
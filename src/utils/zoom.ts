@@ -0,0 +1,36 @@
+// ─── Zoom and pan of the overlay viewer ──────────────────────────────────────
+// The page is drawn `zoom` times its fitted size and shifted by (panX, panY)
+// screen pixels inside a viewport of the fitted size. The pan is kept so the
+// page always covers the viewport.
+
+export interface ZoomView {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+export const FIT_VIEW: ZoomView = { zoom: 1, panX: 0, panY: 0 };
+
+/** Keep the zoom in range and the page covering a `viewW` × `viewH` viewport. */
+export function clampView(view: ZoomView, viewW: number, viewH: number): ZoomView {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom));
+  return {
+    zoom,
+    panX: Math.min(0, Math.max(viewW - viewW * zoom, view.panX)),
+    panY: Math.min(0, Math.max(viewH - viewH * zoom, view.panY)),
+  };
+}
+
+/** Zoom by `factor`, keeping the page point under viewport point (qx, qy) in place. */
+export function zoomAt(view: ZoomView, factor: number, qx: number, qy: number, viewW: number, viewH: number): ZoomView {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor));
+  const k = zoom / view.zoom;
+  return clampView({ zoom, panX: qx - (qx - view.panX) * k, panY: qy - (qy - view.panY) * k }, viewW, viewH);
+}
+
+/** Pan so that the fitted-size page point (x, y) sits at the viewport centre. */
+export function centreOn(view: ZoomView, x: number, y: number, viewW: number, viewH: number): ZoomView {
+  return clampView({ ...view, panX: viewW / 2 - x * view.zoom, panY: viewH / 2 - y * view.zoom }, viewW, viewH);
+}